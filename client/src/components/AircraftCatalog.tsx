@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/api";
+import { AircraftType, BurnBand } from "@/types";
+import { Plane, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  code: "",
+  name: "",
+  seatCapacity: 0,
+  cruiseSpeedKmh: 0,
+  burnBands: [{ maxDistanceKm: null, burnLPerKm: 0 }] as BurnBand[],
+};
+
+function formatBands(bands: BurnBand[]) {
+  return bands
+    .map((band) => `${band.maxDistanceKm === null ? "any" : `≤${band.maxDistanceKm} km`}: ${band.burnLPerKm} L/km`)
+    .join(" • ");
+}
+
+export default function AircraftCatalog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Id of the type being edited, or null when adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: aircraftTypes = [] } = useQuery<AircraftType[]>({
+    queryKey: ["aircraft-types"],
+    queryFn: () => apiRequest("GET", "/aircraft-types"),
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Update Failed",
+      description: error.response?.data?.message || "Failed to update aircraft catalog",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const { code, ...rest } = form;
+      return editingId
+        ? apiRequest("PATCH", `/admin/aircraft-types/${editingId}`, rest)
+        : apiRequest("POST", "/admin/aircraft-types", form);
+    },
+    onSuccess: () => {
+      toast({
+        title: editingId ? "Aircraft Updated" : "Aircraft Added",
+        description: `${form.code} has been saved to the catalog.`,
+      });
+      setEditingId(null);
+      setForm(emptyForm);
+      queryClient.invalidateQueries({ queryKey: ["aircraft-types"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/admin/aircraft-types/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["aircraft-types"] });
+    },
+    onError,
+  });
+
+  const startEditing = (aircraftType: AircraftType) => {
+    setEditingId(aircraftType.id);
+    setForm({
+      code: aircraftType.code,
+      name: aircraftType.name,
+      seatCapacity: aircraftType.seatCapacity,
+      cruiseSpeedKmh: aircraftType.cruiseSpeedKmh,
+      burnBands: aircraftType.burnBands,
+    });
+  };
+
+  const updateBand = (index: number, field: keyof BurnBand, value: string) => {
+    setForm((prev) => ({
+      ...prev,
+      burnBands: prev.burnBands.map((band, i) =>
+        i !== index
+          ? band
+          : {
+              ...band,
+              // An empty upper bound makes the band open-ended
+              [field]: field === "maxDistanceKm" && value === "" ? null : parseFloat(value) || 0,
+            }
+      ),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Plane className="w-5 h-5" />
+          <span>Aircraft Types</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-3" data-testid="aircraft-type-list">
+            {aircraftTypes.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No aircraft types yet. Legs are priced with the default burn rate.
+              </p>
+            )}
+            {aircraftTypes.map((aircraftType) => (
+              <div
+                key={aircraftType.id}
+                className="flex items-start justify-between p-3 border border-gray-200 rounded-lg"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">{aircraftType.code}</Badge>
+                    <span className="font-medium text-gray-900">{aircraftType.name}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {aircraftType.seatCapacity} seats • {aircraftType.cruiseSpeedKmh} km/h
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{formatBands(aircraftType.burnBands)}</p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => startEditing(aircraftType)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(aircraftType.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-aircraft-${aircraftType.code}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="aircraftCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Code
+                </Label>
+                <Input
+                  id="aircraftCode"
+                  value={form.code}
+                  disabled={!!editingId}
+                  onChange={(e) => setForm((prev) => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                  placeholder="A320"
+                  data-testid="input-aircraft-code"
+                />
+              </div>
+              <div>
+                <Label htmlFor="aircraftName" className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </Label>
+                <Input
+                  id="aircraftName"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="Airbus A320neo"
+                />
+              </div>
+              <div>
+                <Label htmlFor="seatCapacity" className="block text-sm font-medium text-gray-700 mb-2">
+                  Seats
+                </Label>
+                <Input
+                  id="seatCapacity"
+                  type="number"
+                  min="1"
+                  value={form.seatCapacity}
+                  onChange={(e) => setForm((prev) => ({ ...prev, seatCapacity: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cruiseSpeedKmh" className="block text-sm font-medium text-gray-700 mb-2">
+                  Cruise Speed (km/h)
+                </Label>
+                <Input
+                  id="cruiseSpeedKmh"
+                  type="number"
+                  min="1"
+                  value={form.cruiseSpeedKmh}
+                  onChange={(e) => setForm((prev) => ({ ...prev, cruiseSpeedKmh: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">
+                Fuel Burn by Leg Distance
+              </Label>
+              <div className="space-y-2">
+                {form.burnBands.map((band, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Up to km (blank = any)"
+                      value={band.maxDistanceKm ?? ""}
+                      onChange={(e) => updateBand(index, "maxDistanceKm", e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="L/km"
+                      value={band.burnLPerKm}
+                      onChange={(e) => updateBand(index, "burnLPerKm", e.target.value)}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={form.burnBands.length === 1}
+                      onClick={() =>
+                        setForm((prev) => ({ ...prev, burnBands: prev.burnBands.filter((_, i) => i !== index) }))
+                      }
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                onClick={() =>
+                  setForm((prev) => ({ ...prev, burnBands: [...prev.burnBands, { maxDistanceKm: null, burnLPerKm: 0 }] }))
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Band
+              </Button>
+            </div>
+
+            <div className="flex space-x-2">
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="flex-1"
+                data-testid="button-save-aircraft"
+              >
+                {saveMutation.isPending ? "Saving..." : editingId ? "Update Aircraft" : "Add Aircraft"}
+              </Button>
+              {editingId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(emptyForm);
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
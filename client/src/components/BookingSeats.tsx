@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import SeatMap from "@/components/SeatMap";
+import { apiRequest } from "@/lib/api";
+import { answerChallenge, mockCards } from "@/lib/payments";
+import { socketService } from "@/lib/socket";
+import { formatLocalDate, formatPrice } from "@/lib/utils";
+import { Airport, Booking, BookingWithPassengers, Payment, SeatAssignment } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck } from "lucide-react";
+
+interface BookingSeatsProps {
+  pnr: string;
+}
+
+interface SeatInput {
+  passengerId: string;
+  segment: number;
+  seat: string;
+  paymentMethod?: string;
+}
+
+// A seat with a fee the traveller is paying for
+interface SeatPurchase {
+  input: SeatInput;
+  fee: number;
+  payment: Payment | null;
+}
+
+// Seat selection for every scheduled flight of a booking, one traveller at
+// a time. A seat with a fee is paid for first and assigned once the payment
+// is captured, which may only be confirmed later by socket.
+export default function BookingSeats({ pnr }: BookingSeatsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [passengerId, setPassengerId] = useState<string | null>(null);
+  const [purchase, setPurchase] = useState<SeatPurchase | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState(mockCards[0].value);
+
+  const { data: booking } = useQuery<BookingWithPassengers>({
+    queryKey: ["booking", pnr],
+    queryFn: () => apiRequest("GET", `/bookings/${pnr}`),
+  });
+
+  const { data: airports = [] } = useQuery<Airport[]>({
+    queryKey: ["airports"],
+    queryFn: async () => {
+      const res = await fetch("/api/airports");
+      if (!res.ok) throw new Error("Failed to fetch airports");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    socketService.connect();
+
+    const handleBookingUpdated = (data: { pnr: string }) => {
+      if (data.pnr !== pnr) return;
+      queryClient.invalidateQueries({ queryKey: ["booking", pnr] });
+      setPurchase(null);
+    };
+
+    socketService.on("booking:updated", handleBookingUpdated);
+    return () => socketService.off("booking:updated", handleBookingUpdated);
+  }, [pnr, queryClient]);
+
+  const assignMutation = useMutation({
+    mutationFn: (input: SeatInput) => apiRequest("PUT", `/bookings/${pnr}/seats`, input),
+    onSuccess: (result: SeatAssignment | { booking: Booking; payment: Payment }, input) => {
+      if ("payment" in result) {
+        setPurchase((current) => current && { ...current, payment: result.payment });
+        if (result.payment.status !== "captured") return;
+        setPurchase(null);
+        toast({
+          title: "Seat Assigned",
+          description: `Seat ${input.seat} for ${formatPrice(result.payment.amount, result.payment.currency)}.`,
+        });
+      } else {
+        toast({ title: "Seat Assigned", description: `Seat ${result.seat} is yours.` });
+      }
+      queryClient.invalidateQueries({ queryKey: ["booking", pnr] });
+    },
+    onError: (error: any, input) => {
+      const data = error.response?.data;
+      if (data?.reason === "payment_required") {
+        setPurchase({ input, fee: data.fee, payment: null });
+        return;
+      }
+      if (purchase) setPurchase({ ...purchase, payment: data?.payment ?? null });
+      toast({
+        title: "Seat Not Assigned",
+        description: data?.message || "Failed to assign seat",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const challengeMutation = useMutation({
+    mutationFn: (approve: boolean) => answerChallenge(purchase!.payment!, approve),
+    onSuccess: (intent: { status: Payment["status"]; failureReason: string | null }) => {
+      setPurchase((current) => current?.payment
+        ? { ...current, payment: { ...current.payment, status: intent.status, nextAction: null } }
+        : current);
+      if (intent.status !== "authorized") {
+        toast({
+          title: "Authentication Failed",
+          description: "Your bank did not approve the payment. Please try again.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Authentication Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!booking || airports.length === 0) {
+    return <div className="h-24 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  const seated = booking.passengers.filter((passenger) => passenger.type !== "infant");
+  const travellerId = passengerId ?? seated[0]?.id;
+  const timeZone = (code: string) => airports.find((airport) => airport.code === code)?.timezone ?? "UTC";
+  const flights = (booking.segments ?? [])
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) => segment.flightId && segment.departure);
+
+  return (
+    <div className="space-y-6" data-testid={`booking-seats-${pnr}`}>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Traveller</label>
+        <Select value={travellerId} onValueChange={setPassengerId}>
+          <SelectTrigger data-testid="select-seat-traveller">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {seated.map((passenger) => (
+              <SelectItem key={passenger.id} value={passenger.id}>
+                {passenger.firstName} {passenger.lastName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Dialog open={!!purchase} onOpenChange={(open) => !open && setPurchase(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pay for seat {purchase?.input.seat}</DialogTitle>
+            <DialogDescription>
+              This seat costs {formatPrice(purchase?.fee ?? 0, booking.currency)} and is assigned once paid.
+            </DialogDescription>
+          </DialogHeader>
+
+          {purchase?.payment?.status === "requires_action" && purchase.payment.nextAction ? (
+            <div className="space-y-3" data-testid="seat-challenge">
+              <div className="flex items-center text-sm text-gray-700">
+                <ShieldCheck className="w-4 h-4 mr-2 text-blue-600" />
+                Your bank asks you to confirm this payment.
+              </div>
+              <div className="flex space-x-3">
+                <Button
+                  className="flex-1"
+                  onClick={() => challengeMutation.mutate(true)}
+                  disabled={challengeMutation.isPending}
+                  data-testid="button-seat-challenge-approve"
+                >
+                  Approve
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => challengeMutation.mutate(false)}
+                  disabled={challengeMutation.isPending}
+                  data-testid="button-seat-challenge-decline"
+                >
+                  Decline
+                </Button>
+              </div>
+            </div>
+          ) : purchase?.payment?.status === "processing" || purchase?.payment?.status === "authorized" ? (
+            <p className="text-sm text-gray-600" data-testid="text-seat-payment-pending">
+              Waiting for your bank to confirm the payment. Your seat will update automatically.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Card</label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger data-testid="select-seat-payment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mockCards.map((card) => (
+                      <SelectItem key={card.value} value={card.value}>
+                        {card.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => purchase && assignMutation.mutate({ ...purchase.input, paymentMethod })}
+                  disabled={assignMutation.isPending}
+                  data-testid="button-confirm-seat-payment"
+                >
+                  {assignMutation.isPending ? "Processing..." : `Pay ${formatPrice(purchase?.fee ?? 0, booking.currency)}`}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {flights.map(({ segment, index }) => {
+        const departureDate = formatLocalDate(segment.departure!, timeZone(segment.from));
+        const current = booking.seats.find(
+          (seat) =>
+            seat.status === "assigned" &&
+            seat.passengerId === travellerId &&
+            seat.flightId === segment.flightId &&
+            seat.departureDate === departureDate
+        );
+
+        return (
+          <div key={index}>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="font-medium text-gray-900">
+                {segment.flightNumber} • {segment.from} → {segment.to}
+              </span>
+              <span className="text-gray-600">{current ? `Seat ${current.seat}` : "No seat chosen"}</span>
+            </div>
+            <SeatMap
+              flightId={segment.flightId!}
+              departureDate={departureDate}
+              selectedSeat={current?.seat}
+              onSelect={(seat) => assignMutation.mutate({ passengerId: travellerId!, segment: index, seat: seat.seat })}
+              freeSeatSelection={booking.fareRules?.freeSeatSelection}
+              currency={booking.currency}
+              exchangeRate={booking.exchangeRate}
+              disabled={assignMutation.isPending || !travellerId}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/api";
+import { formatPrice } from "@/lib/utils";
+import { Booking, CancellationQuote, Refund } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { XCircle } from "lucide-react";
+
+interface CancelBookingProps {
+  booking: Booking;
+}
+
+// The refund is fetched when the dialog opens, so the traveller confirms
+// against what they will actually get back
+export default function CancelBooking({ booking }: CancelBookingProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data: quote, isLoading, error } = useQuery<CancellationQuote>({
+    queryKey: ["cancellation", booking.pnr],
+    queryFn: () => apiRequest("GET", `/bookings/${booking.pnr}/cancel`),
+    enabled: open,
+    staleTime: 0,
+    retry: false,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/bookings/${booking.pnr}/cancel`),
+    onSuccess: ({ refunded }: { booking: Booking; refunds: Refund[]; refunded: number }) => {
+      toast({
+        title: "Booking Cancelled",
+        description: refunded > 0
+          ? `${formatPrice(refunded, booking.currency)} will be refunded.`
+          : `Booking ${booking.pnr} has been cancelled.`,
+      });
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["booking", booking.pnr] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancellation Failed",
+        description: error.response?.data?.message || "Failed to cancel booking",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const describeRefund = () => {
+    if (isLoading) return "Calculating your refund…";
+    if (error || !quote) {
+      return (error as any)?.response?.data?.message || "This booking cannot be cancelled.";
+    }
+    if (quote.refund > 0) {
+      return `You will be refunded ${formatPrice(quote.refund, quote.currency)} of the ${formatPrice(
+        booking.total,
+        booking.currency
+      )} fare. Seat fees are not refunded.`;
+    }
+    return quote.withinDeadline
+      ? "This fare is non-refundable. You will not get any money back."
+      : "The refund deadline has passed. You will not get any money back.";
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-full mt-3 text-red-600 hover:text-red-700"
+          data-testid={`button-cancel-booking-${booking.pnr}`}
+        >
+          <XCircle className="w-4 h-4 mr-2" />
+          Cancel Booking
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel booking {booking.pnr}?</AlertDialogTitle>
+          <AlertDialogDescription data-testid={`text-refund-${booking.pnr}`}>
+            {describeRefund()}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Booking</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!quote || cancelMutation.isPending}
+            onClick={(event) => {
+              // Stays open until the cancellation has gone through
+              event.preventDefault();
+              cancelMutation.mutate();
+            }}
+            className="bg-red-600 hover:bg-red-700"
+            data-testid={`button-confirm-cancel-${booking.pnr}`}
+          >
+            {cancelMutation.isPending ? "Cancelling..." : "Cancel Booking"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/api";
+import { ExchangeRate } from "@/types";
+import { Coins, Upload, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  currency: "",
+  inrPerUnit: "",
+  roundingIncrement: "0.01",
+};
+
+export default function ExchangeRates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: rates = [] } = useQuery<ExchangeRate[]>({
+    queryKey: ["exchange-rates"],
+    queryFn: () => apiRequest("GET", "/exchange-rates"),
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Update Failed",
+      description: error.response?.data?.message || "Failed to update exchange rates",
+      variant: "destructive",
+    });
+  };
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["exchange-rates"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/admin/exchange-rates/${form.currency}`, {
+        inrPerUnit: parseFloat(form.inrPerUnit),
+        roundingIncrement: parseFloat(form.roundingIncrement),
+      }),
+    onSuccess: () => {
+      toast({ title: "Rate Saved", description: `${form.currency} rate updated.` });
+      setForm(emptyForm);
+      onSuccess();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (currency: string) => apiRequest("DELETE", `/admin/exchange-rates/${currency}`),
+    onSuccess,
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (csv: string) => apiRequest("POST", "/admin/exchange-rates/import", { csv }),
+    onSuccess: (imported: ExchangeRate[]) => {
+      toast({ title: "Rates Imported", description: `${imported.length} exchange rates updated.` });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => importMutation.mutate(String(reader.result));
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Coins className="w-5 h-5" />
+          <span>Exchange Rates</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-3" data-testid="exchange-rate-list">
+            {rates.length === 0 && <p className="text-sm text-gray-500">Fares are quoted in INR only.</p>}
+            {rates.map((rate) => (
+              <div
+                key={rate.currency}
+                className="flex items-start justify-between p-3 border border-gray-200 rounded-lg"
+              >
+                <div>
+                  <span className="font-medium text-gray-900">{rate.currency}</span>
+                  <span className="text-sm text-gray-600 ml-2">
+                    1 {rate.currency} = ₹{rate.inrPerUnit} • rounded to {rate.roundingIncrement}
+                  </span>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Updated {new Date(rate.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(rate.currency)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-rate-${rate.currency}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="rateCurrency" className="block text-sm font-medium text-gray-700 mb-2">
+                    Currency
+                  </Label>
+                  <Input
+                    id="rateCurrency"
+                    maxLength={3}
+                    value={form.currency}
+                    onChange={(e) => setForm((prev) => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                    placeholder="USD"
+                    data-testid="input-rate-currency"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rateInrPerUnit" className="block text-sm font-medium text-gray-700 mb-2">
+                    INR per Unit
+                  </Label>
+                  <Input
+                    id="rateInrPerUnit"
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    value={form.inrPerUnit}
+                    onChange={(e) => setForm((prev) => ({ ...prev, inrPerUnit: e.target.value }))}
+                    data-testid="input-rate-value"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rateRounding" className="block text-sm font-medium text-gray-700 mb-2">
+                    Round To
+                  </Label>
+                  <Input
+                    id="rateRounding"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={form.roundingIncrement}
+                    onChange={(e) => setForm((prev) => ({ ...prev, roundingIncrement: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending || form.currency.length !== 3 || !form.inrPerUnit}
+                className="w-full"
+                data-testid="button-save-rate"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Rate"}
+              </Button>
+            </form>
+
+            <div>
+              <Label htmlFor="rateCsv" className="block text-sm font-medium text-gray-700 mb-2">
+                Import CSV
+              </Label>
+              <div className="flex items-center space-x-2">
+                <Upload className="w-4 h-4 text-gray-500" />
+                <Input
+                  id="rateCsv"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleImport}
+                  disabled={importMutation.isPending}
+                  data-testid="input-rate-csv"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">One rate per line: currency,inrPerUnit[,roundingIncrement]</p>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
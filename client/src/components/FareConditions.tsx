@@ -0,0 +1,47 @@
+import { FareRule } from "@/types";
+import { formatPrice } from "@/lib/utils";
+import { Undo2, RefreshCw, Luggage, Armchair, Clock } from "lucide-react";
+
+interface FareConditionsProps {
+  rule: FareRule;
+  // The change fee is set in INR; it is shown converted like the fare
+  currency?: string;
+  exchangeRate?: number;
+}
+
+function describeRefund(rule: FareRule) {
+  if (rule.refundRate === 0) return "Non-refundable";
+  if (rule.refundRate === 1) return "Fully refundable";
+  return `${Math.round(rule.refundRate * 100)}% refundable`;
+}
+
+export default function FareConditions({ rule, currency = "INR", exchangeRate = 1 }: FareConditionsProps) {
+  const conditions = [
+    { icon: Undo2, key: "refund", label: describeRefund(rule) },
+    {
+      icon: RefreshCw,
+      key: "change",
+      label: rule.changeFee === 0
+        ? "Free changes"
+        : `Changes ${formatPrice(rule.changeFee / exchangeRate, currency)} per traveller`,
+    },
+    { icon: Luggage, key: "baggage", label: `${rule.baggageKg} kg checked baggage` },
+    { icon: Armchair, key: "seat", label: rule.freeSeatSelection ? "Free seat selection" : "Paid seat selection" },
+    {
+      icon: Clock,
+      key: "deadline",
+      label: `Refunds and changes until ${rule.cancellationDeadlineHours}h before departure`,
+    },
+  ];
+
+  return (
+    <ul className="space-y-1 text-sm text-gray-600 mb-4" data-testid="fare-conditions">
+      {conditions.map(({ icon: Icon, key, label }) => (
+        <li key={key} className="flex items-center" data-testid={`text-condition-${key}`}>
+          <Icon className="w-4 h-4 mr-2 text-gray-400" />
+          {label}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -3,7 +3,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 
 export default function Layout({ children }: { children: React.ReactNode }) {
-  const { user, logout, isAuthenticated } = useAuth();
+  const { user, logout, logoutAll, isAuthenticated } = useAuth();
   const [location] = useLocation();
 
   const navigation = [
@@ -59,6 +59,9 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                   <Button onClick={logout} variant="outline">
                     Sign Out
                   </Button>
+                  <Button onClick={logoutAll} variant="ghost" data-testid="button-logout-all">
+                    Sign Out Everywhere
+                  </Button>
                 </div>
               ) : (
                 <Link href="/login">
@@ -2,6 +2,8 @@ import { Offer } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import PriceBreakdown from "@/components/PriceBreakdown";
+import FareConditions from "@/components/FareConditions";
+import { formatPrice } from "@/lib/utils";
 import { DollarSign, Star, Shield } from "lucide-react";
 
 interface OfferCardProps {
@@ -46,13 +48,20 @@ export default function OfferCard({ offer, onSelect }: OfferCardProps) {
           </div>
           <div className="text-right">
             <div className="text-2xl font-bold text-gray-900" data-testid={`text-price-${offer.class.toLowerCase()}`}>
-              ₹{offer.totalFare.toLocaleString()}
+              {formatPrice(offer.totalFare, offer.currency)}
             </div>
             <div className="text-sm text-gray-500">per person</div>
           </div>
         </div>
 
-        <PriceBreakdown fareBreakdown={offer.fareBreakdown} totalFare={offer.totalFare} />
+        <FareConditions rule={offer.fareRules} currency={offer.currency} exchangeRate={offer.exchangeRate} />
+
+        <PriceBreakdown
+          fareBreakdown={offer.fareBreakdown}
+          totalFare={offer.totalFare}
+          currency={offer.currency}
+          exchangeRate={offer.exchangeRate}
+        />
 
         <Button
           onClick={() => onSelect(offer)}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/api";
+import { answerChallenge, mockCards } from "@/lib/payments";
+import { formatPrice } from "@/lib/utils";
+import { Booking, Payment } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { CreditCard, ShieldCheck } from "lucide-react";
+
+interface PayBookingProps {
+  booking: Booking;
+}
+
+// Pays for a pending booking. A 3-D Secure challenge is answered here;
+// payments that complete later update the booking list by socket.
+export default function PayBooking({ booking }: PayBookingProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState(mockCards[0].value);
+  const [payment, setPayment] = useState<Payment | null>(null);
+
+  const payMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/bookings/${booking.pnr}/pay`, { paymentMethod }),
+    onSuccess: (result: { booking: Booking; payment: Payment }) => {
+      setPayment(result.payment);
+      if (result.payment.status === "captured") {
+        toast({
+          title: "Payment Successful",
+          description: `Booking ${booking.pnr} is paid and ticketed.`,
+        });
+        setOpen(false);
+        queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      }
+    },
+    onError: (error: any) => {
+      setPayment(error.response?.data?.payment ?? null);
+      toast({
+        title: "Payment Failed",
+        description: error.response?.data?.message || "Failed to take payment",
+        variant: "destructive",
+      });
+      if (error.response?.status === 409) {
+        setOpen(false);
+        queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      }
+    },
+  });
+
+  const challengeMutation = useMutation({
+    mutationFn: (approve: boolean) => answerChallenge(payment!, approve),
+    onSuccess: (intent: { status: Payment["status"]; failureReason: string | null }) => {
+      setPayment((current) => current && { ...current, status: intent.status, nextAction: null });
+      if (intent.status !== "authorized") {
+        toast({
+          title: "Authentication Failed",
+          description: "Your bank did not approve the payment. Please try again.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Authentication Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const awaitingChallenge = payment?.status === "requires_action" && payment.nextAction;
+  const awaitingConfirmation = payment?.status === "processing" || payment?.status === "authorized";
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="w-full mt-3" data-testid={`button-pay-${booking.pnr}`}>
+          <CreditCard className="w-4 h-4 mr-2" />
+          Pay {formatPrice(booking.total, booking.currency)}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pay for booking {booking.pnr}</DialogTitle>
+          <DialogDescription>
+            {booking.paymentDueAt
+              ? `Your seats are held until ${new Date(booking.paymentDueAt).toLocaleTimeString()}.`
+              : "Complete payment to issue your tickets."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {awaitingChallenge ? (
+          <div className="space-y-3" data-testid={`challenge-${booking.pnr}`}>
+            <div className="flex items-center text-sm text-gray-700">
+              <ShieldCheck className="w-4 h-4 mr-2 text-blue-600" />
+              Your bank asks you to confirm this payment.
+            </div>
+            <div className="flex space-x-3">
+              <Button
+                className="flex-1"
+                onClick={() => challengeMutation.mutate(true)}
+                disabled={challengeMutation.isPending}
+                data-testid="button-challenge-approve"
+              >
+                Approve
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => challengeMutation.mutate(false)}
+                disabled={challengeMutation.isPending}
+                data-testid="button-challenge-decline"
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ) : awaitingConfirmation ? (
+          <p className="text-sm text-gray-600" data-testid={`text-payment-pending-${booking.pnr}`}>
+            Waiting for your bank to confirm the payment. Your booking will update automatically.
+          </p>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Card</label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger data-testid="select-payment-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {mockCards.map((card) => (
+                  <SelectItem key={card.value} value={card.value}>
+                    {card.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {!awaitingChallenge && !awaitingConfirmation && (
+          <DialogFooter>
+            <Button
+              onClick={() => payMutation.mutate()}
+              disabled={payMutation.isPending}
+              data-testid={`button-confirm-pay-${booking.pnr}`}
+            >
+              {payMutation.isPending ? "Processing..." : `Pay ${formatPrice(booking.total, booking.currency)}`}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
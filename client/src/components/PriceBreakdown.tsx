@@ -1,43 +1,96 @@
-import { FareBreakdown } from "@/types";
+import { FareBreakdown, PassengerType } from "@/types";
+import { formatPrice } from "@/lib/utils";
+
+const passengerTypeLabels: Record<PassengerType, string> = {
+  adult: "Adult",
+  child: "Child",
+  infant: "Infant",
+};
 
 interface PriceBreakdownProps {
   fareBreakdown: FareBreakdown;
   totalFare: number;
+  // The breakdown is in INR; lines are shown converted at the quoted rate
+  currency?: string;
+  exchangeRate?: number;
   showDemand?: boolean;
 }
 
 export default function PriceBreakdown({ 
   fareBreakdown, 
   totalFare, 
+  currency = "INR",
+  exchangeRate = 1,
   showDemand = false 
 }: PriceBreakdownProps) {
+  const price = (amountInr: number) => formatPrice(amountInr / exchangeRate, currency);
+  const lines = fareBreakdown.lines ?? [];
+  const taxLines = lines.filter((line) => line.kind === "tax");
+  const chargeLines = lines.filter((line) => line.kind === "airport_charge");
+  const discountLines = lines.filter((line) => line.kind === "discount");
+  const passengers = fareBreakdown.passengers ?? [];
+
   return (
     <div className="space-y-2 text-sm border-t pt-4" data-testid="price-breakdown">
       <div className="flex justify-between">
         <span className="text-gray-600">Base fare</span>
-        <span data-testid="text-base-fare">₹{fareBreakdown.base.toLocaleString()}</span>
+        <span data-testid="text-base-fare">{price(fareBreakdown.base)}</span>
       </div>
       <div className="flex justify-between">
         <span className="text-gray-600">Fuel charges</span>
-        <span data-testid="text-fuel-charges">₹{Math.round(fareBreakdown.fuelCost).toLocaleString()}</span>
+        <span data-testid="text-fuel-charges">{price(fareBreakdown.fuelCost)}</span>
       </div>
       <div className="flex justify-between">
         <span className="text-gray-600">Operations fee</span>
-        <span data-testid="text-ops-fee">₹{Math.round(fareBreakdown.ops).toLocaleString()}</span>
-      </div>
-      <div className="flex justify-between">
-        <span className="text-gray-600">Taxes</span>
-        <span data-testid="text-taxes">₹{Math.round(fareBreakdown.taxes).toLocaleString()}</span>
+        <span data-testid="text-ops-fee">{price(fareBreakdown.ops)}</span>
       </div>
+      {taxLines.length > 0 ? (
+        taxLines.map((line) => (
+          <div key={line.code} className="flex justify-between">
+            <span className="text-gray-600">{line.label}</span>
+            <span data-testid={`text-tax-${line.code}`}>{price(line.amount)}</span>
+          </div>
+        ))
+      ) : (
+        <div className="flex justify-between">
+          <span className="text-gray-600">Taxes</span>
+          <span data-testid="text-taxes">{price(fareBreakdown.taxes)}</span>
+        </div>
+      )}
+      {chargeLines.map((line, index) => (
+        <div key={`${line.code}-${index}`} className="flex justify-between">
+          <span className="text-gray-600">{line.label}</span>
+          <span data-testid={`text-charge-${line.code}`}>{price(line.amount)}</span>
+        </div>
+      ))}
+      {discountLines.map((line) => (
+        <div key={line.code} className="flex justify-between text-green-700">
+          <span>{line.label}</span>
+          <span data-testid={`text-discount-${line.code}`}>−{price(Math.abs(line.amount))}</span>
+        </div>
+      ))}
       {showDemand && (
         <div className="flex justify-between">
           <span className="text-gray-600">Demand factor</span>
           <span data-testid="text-demand-factor">{fareBreakdown.demand.toFixed(2)}x</span>
         </div>
       )}
+      {passengers.length > 0 && (
+        <div className="space-y-1 pt-2 border-t" data-testid="passenger-fares">
+          {passengers.map((passenger) => (
+            <div key={passenger.type} className="flex justify-between">
+              <span className="text-gray-600">
+                {passengerTypeLabels[passenger.type]} × {passenger.count} @{" "}
+                {price(passenger.fare + passenger.discount)}
+              </span>
+              <span data-testid={`text-passenger-${passenger.type}`}>{price(passenger.total)}</span>
+            </div>
+          ))}
+        </div>
+      )}
       <div className="flex justify-between font-semibold pt-2 border-t">
         <span>Total</span>
-        <span data-testid="text-total-fare">₹{totalFare.toLocaleString()}</span>
+        <span data-testid="text-total-fare">{formatPrice(totalFare, currency)}</span>
       </div>
     </div>
   );
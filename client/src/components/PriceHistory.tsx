@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/api";
+import { PriceConfigDiff, PriceConfigVersion } from "@/types";
+import { History, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface PriceHistoryProps {
+  currentVersion?: number;
+}
+
+export default function PriceHistory({ currentVersion }: PriceHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  const { data: versions = [] } = useQuery<PriceConfigVersion[]>({
+    queryKey: ["/api/admin/pricing/versions"],
+    queryFn: () => apiRequest("GET", "/admin/pricing/versions"),
+  });
+
+  // Each version is compared with the one before it
+  const { data: diff } = useQuery<PriceConfigDiff>({
+    queryKey: ["/api/admin/pricing/versions/diff", selectedVersion],
+    queryFn: () =>
+      apiRequest("GET", `/admin/pricing/versions/diff?from=${selectedVersion! - 1}&to=${selectedVersion}`),
+    enabled: selectedVersion !== null && selectedVersion > 1,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) => apiRequest("POST", `/admin/pricing/versions/${version}/rollback`),
+    onSuccess: (_, version) => {
+      toast({
+        title: "Pricing Rolled Back",
+        description: `Version ${version} has been restored as a new version.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing/versions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rollback Failed",
+        description: error.response?.data?.message || "Failed to roll back pricing configuration",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>Pricing History</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 max-h-96 overflow-y-auto" data-testid="price-history">
+          {versions.length === 0 && (
+            <p className="text-sm text-gray-500">No configuration changes recorded yet.</p>
+          )}
+          {versions.map((version) => (
+            <div key={version.version} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  className="flex items-center space-x-2 text-left"
+                  onClick={() =>
+                    setSelectedVersion(selectedVersion === version.version ? null : version.version)
+                  }
+                >
+                  <Badge variant={version.version === currentVersion ? "default" : "secondary"}>
+                    v{version.version}
+                  </Badge>
+                  <span className="text-sm text-gray-900">
+                    {version.authorName ?? "System"} • {new Date(version.createdAt).toLocaleString()}
+                  </span>
+                  {version.rollbackOf !== null && (
+                    <span className="text-xs text-gray-500">(restores v{version.rollbackOf})</span>
+                  )}
+                </button>
+                {version.version !== currentVersion && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => rollbackMutation.mutate(version.version)}
+                    disabled={rollbackMutation.isPending}
+                    data-testid={`button-rollback-${version.version}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Roll Back
+                  </Button>
+                )}
+              </div>
+
+              {selectedVersion === version.version && (
+                <div className="mt-3 text-sm">
+                  {version.version === 1 ? (
+                    <p className="text-gray-500">Initial configuration.</p>
+                  ) : !diff || diff.to !== version.version ? (
+                    <p className="text-gray-500">Loading changes...</p>
+                  ) : diff.changes.length === 0 ? (
+                    <p className="text-gray-500">No changes from v{diff.from}.</p>
+                  ) : (
+                    diff.changes.map((change) => (
+                      <div key={change.field} className="flex justify-between">
+                        <span className="text-gray-600">{change.field}</span>
+                        <span>
+                          {String(change.from)} → {String(change.to)}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
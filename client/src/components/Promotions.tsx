@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/api";
+import { Promotion } from "@/types";
+import { Tag } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  code: "",
+  name: "",
+  kind: "percent" as Promotion["kind"],
+  value: 0,
+  origin: "",
+  destination: "",
+  maxRedemptions: "",
+  validUntil: "",
+  stackable: false,
+};
+
+function describePromotion(promotion: Promotion) {
+  const amount = promotion.kind === "percent" ? `${promotion.value * 100}% off` : `₹${promotion.value} off per passenger`;
+  const route = promotion.origin || promotion.destination
+    ? `${promotion.origin ?? "any"} → ${promotion.destination ?? "any"}`
+    : "all routes";
+  const classes = promotion.fareClasses ? promotion.fareClasses.join(", ") : "all classes";
+  return `${amount} • ${route} • ${classes}`;
+}
+
+export default function Promotions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: promotions = [] } = useQuery<Promotion[]>({
+    queryKey: ["/api/admin/promotions"],
+    queryFn: () => apiRequest("GET", "/admin/promotions"),
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Update Failed",
+      description: error.response?.data?.message || "Failed to update promotions",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/admin/promotions", {
+        code: form.code,
+        name: form.name,
+        kind: form.kind,
+        value: form.value,
+        origin: form.origin || null,
+        destination: form.destination || null,
+        maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions) : null,
+        validUntil: form.validUntil ? new Date(form.validUntil).toISOString() : null,
+        stackable: form.stackable,
+      }),
+    onSuccess: () => {
+      toast({ title: "Promotion Created", description: `${form.code} is now available.` });
+      setForm(emptyForm);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promotions"] });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (promotion: Promotion) =>
+      apiRequest("PATCH", `/admin/promotions/${promotion.id}`, { active: !promotion.active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promotions"] });
+    },
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Tag className="w-5 h-5" />
+          <span>Promotions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-3" data-testid="promotion-list">
+            {promotions.length === 0 && <p className="text-sm text-gray-500">No promo codes yet.</p>}
+            {promotions.map((promotion) => (
+              <div
+                key={promotion.id}
+                className="flex items-start justify-between p-3 border border-gray-200 rounded-lg"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={promotion.active ? "default" : "secondary"}>{promotion.code}</Badge>
+                    <span className="font-medium text-gray-900">{promotion.name}</span>
+                    {promotion.stackable && <span className="text-xs text-gray-500">stackable</span>}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{describePromotion(promotion)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {promotion.redemptionCount}
+                    {promotion.maxRedemptions !== null && ` / ${promotion.maxRedemptions}`} redeemed
+                    {promotion.validUntil && ` • until ${new Date(promotion.validUntil).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleMutation.mutate(promotion)}
+                  disabled={toggleMutation.isPending}
+                  data-testid={`button-toggle-promotion-${promotion.code}`}
+                >
+                  {promotion.active ? "Deactivate" : "Activate"}
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Code
+                </Label>
+                <Input
+                  id="promoCode"
+                  value={form.code}
+                  onChange={(e) => setForm((prev) => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                  placeholder="MONSOON10"
+                  data-testid="input-promotion-code"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoName" className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </Label>
+                <Input
+                  id="promoName"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="Monsoon sale"
+                />
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-2">Discount</Label>
+                <Select
+                  value={form.kind}
+                  onValueChange={(kind) => setForm((prev) => ({ ...prev, kind: kind as Promotion["kind"] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percent (fraction)</SelectItem>
+                    <SelectItem value="fixed">Fixed (₹ per passenger)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="promoValue" className="block text-sm font-medium text-gray-700 mb-2">
+                  Value
+                </Label>
+                <Input
+                  id="promoValue"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.value}
+                  onChange={(e) => setForm((prev) => ({ ...prev, value: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoOrigin" className="block text-sm font-medium text-gray-700 mb-2">
+                  Origin
+                </Label>
+                <Input
+                  id="promoOrigin"
+                  maxLength={3}
+                  value={form.origin}
+                  onChange={(e) => setForm((prev) => ({ ...prev, origin: e.target.value.toUpperCase() }))}
+                  placeholder="Any"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoDestination" className="block text-sm font-medium text-gray-700 mb-2">
+                  Destination
+                </Label>
+                <Input
+                  id="promoDestination"
+                  maxLength={3}
+                  value={form.destination}
+                  onChange={(e) => setForm((prev) => ({ ...prev, destination: e.target.value.toUpperCase() }))}
+                  placeholder="Any"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoMaxRedemptions" className="block text-sm font-medium text-gray-700 mb-2">
+                  Usage Limit
+                </Label>
+                <Input
+                  id="promoMaxRedemptions"
+                  type="number"
+                  min="1"
+                  value={form.maxRedemptions}
+                  onChange={(e) => setForm((prev) => ({ ...prev, maxRedemptions: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoValidUntil" className="block text-sm font-medium text-gray-700 mb-2">
+                  Valid Until
+                </Label>
+                <Input
+                  id="promoValidUntil"
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(e) => setForm((prev) => ({ ...prev, validUntil: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="promoStackable"
+                checked={form.stackable}
+                onCheckedChange={(stackable) => setForm((prev) => ({ ...prev, stackable }))}
+              />
+              <Label htmlFor="promoStackable">Can be combined with other codes</Label>
+            </div>
+
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || !form.code || !form.name}
+              className="w-full"
+              data-testid="button-create-promotion"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Promotion"}
+            </Button>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
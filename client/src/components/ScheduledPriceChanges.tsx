@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/api";
+import { ScheduledPriceChange } from "@/types";
+import { CalendarClock, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const fieldLabels: Record<string, string> = {
+  fuelPricePerLitre: "Fuel Price (₹/L)",
+  defaultBurnLPerKm: "Default Fuel Burn (L/km)",
+  taxRate: "Tax Rate",
+  feeRate: "Fee Rate",
+  baseFare: "Base Fare (₹)",
+};
+
+function describeChanges(change: ScheduledPriceChange) {
+  return Object.entries(change.changes)
+    .map(([field, value]) => `${fieldLabels[field] ?? field}: ${typeof value === "object" ? "updated" : value}`)
+    .join(" • ");
+}
+
+export default function ScheduledPriceChanges() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [field, setField] = useState("fuelPricePerLitre");
+  const [value, setValue] = useState("");
+  // datetime-local value, interpreted in the browser's time zone
+  const [effectiveAt, setEffectiveAt] = useState("");
+
+  const { data: scheduled = [] } = useQuery<ScheduledPriceChange[]>({
+    queryKey: ["/api/admin/pricing/scheduled"],
+    queryFn: () => apiRequest("GET", "/admin/pricing/scheduled"),
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Schedule Failed",
+      description: error.response?.data?.message || "Failed to update scheduled pricing",
+      variant: "destructive",
+    });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/admin/pricing/scheduled", {
+        changes: { [field]: parseFloat(value) },
+        effectiveAt: new Date(effectiveAt).toISOString(),
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Change Scheduled",
+        description: `${fieldLabels[field]} will change on ${new Date(effectiveAt).toLocaleString()}.`,
+      });
+      setValue("");
+      setEffectiveAt("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing/scheduled"] });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/admin/pricing/scheduled/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing/scheduled"] });
+    },
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    scheduleMutation.mutate();
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarClock className="w-5 h-5" />
+          <span>Scheduled Pricing Changes</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-3" data-testid="scheduled-price-changes">
+            {scheduled.length === 0 && (
+              <p className="text-sm text-gray-500">No changes scheduled.</p>
+            )}
+            {scheduled.map((change) => (
+              <div
+                key={change.id}
+                className="flex items-start justify-between p-3 border border-gray-200 rounded-lg"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={change.status === "pending" ? "default" : "secondary"}>
+                      {change.status === "applied" ? `applied v${change.appliedVersion}` : change.status}
+                    </Badge>
+                    <span className="text-sm text-gray-900">{new Date(change.effectiveAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{describeChanges(change)}</p>
+                </div>
+                {change.status === "pending" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelMutation.mutate(change.id)}
+                    disabled={cancelMutation.isPending}
+                    data-testid={`button-cancel-scheduled-${change.id}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">Field</Label>
+              <Select value={field} onValueChange={setField}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(fieldLabels).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="scheduledValue" className="block text-sm font-medium text-gray-700 mb-2">
+                New Value
+              </Label>
+              <Input
+                id="scheduledValue"
+                type="number"
+                step="0.01"
+                min="0"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                data-testid="input-scheduled-value"
+              />
+            </div>
+            <div>
+              <Label htmlFor="effectiveAt" className="block text-sm font-medium text-gray-700 mb-2">
+                Effective From
+              </Label>
+              <Input
+                id="effectiveAt"
+                type="datetime-local"
+                value={effectiveAt}
+                onChange={(e) => setEffectiveAt(e.target.value)}
+                data-testid="input-effective-at"
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={scheduleMutation.isPending || !value || !effectiveAt}
+              className="w-full"
+              data-testid="button-schedule-change"
+            >
+              {scheduleMutation.isPending ? "Scheduling..." : "Schedule Change"}
+            </Button>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { socketService } from "@/lib/socket";
+import { cn, formatPrice } from "@/lib/utils";
+import { SeatMap as SeatMapData, SeatMapSeat } from "@/types";
+
+interface SeatMapProps {
+  flightId: string;
+  departureDate: string; // local date at the origin
+  selectedSeat?: string | null;
+  onSelect: (seat: SeatMapSeat) => void;
+  freeSeatSelection?: boolean;
+  // Fees are set in INR; they are shown converted like the fare
+  currency?: string;
+  exchangeRate?: number;
+  disabled?: boolean;
+}
+
+export default function SeatMap({
+  flightId,
+  departureDate,
+  selectedSeat = null,
+  onSelect,
+  freeSeatSelection = false,
+  currency = "INR",
+  exchangeRate = 1,
+  disabled = false,
+}: SeatMapProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ["seatmap", flightId, departureDate];
+
+  const { data: seatMap, isLoading } = useQuery<SeatMapData>({
+    queryKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/flights/${flightId}/seatmap?date=${departureDate}`);
+      if (!res.ok) throw new Error("Failed to fetch seat map");
+      return res.json();
+    },
+  });
+
+  // Seats taken by other travellers disappear as soon as they are picked,
+  // and come back when their booking is cancelled
+  useEffect(() => {
+    socketService.connect();
+
+    const handleSeatAssigned = (data: any) => {
+      if (data.flightId === flightId && data.departureDate === departureDate) {
+        queryClient.invalidateQueries({ queryKey: ["seatmap", flightId, departureDate] });
+      }
+    };
+
+    socketService.on("seat:assigned", handleSeatAssigned);
+    socketService.on("seat:released", handleSeatAssigned);
+
+    return () => {
+      socketService.off("seat:assigned", handleSeatAssigned);
+      socketService.off("seat:released", handleSeatAssigned);
+    };
+  }, [flightId, departureDate, queryClient]);
+
+  if (isLoading || !seatMap) {
+    return <div className="h-48 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  const feeFor = (seat: SeatMapSeat) => (freeSeatSelection && !seat.extraLegroom ? 0 : seat.fee);
+
+  return (
+    <div className="space-y-4" data-testid={`seatmap-${seatMap.flightNumber}`}>
+      {seatMap.cabins.map((cabin) => {
+        const groups = cabin.columns.split(" ");
+        const rows = Array.from({ length: cabin.lastRow - cabin.firstRow + 1 }, (_, i) => cabin.firstRow + i);
+
+        return (
+          <div key={cabin.name}>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">{cabin.name}</h4>
+            <div className="space-y-1 overflow-x-auto">
+              {rows.map((row) => (
+                <div key={row} className="flex items-center space-x-3">
+                  <span className="w-6 text-xs text-gray-500 text-right">{row}</span>
+                  {groups.map((group) => (
+                    <div key={group} className="flex space-x-1">
+                      {group.split("").map((column) => {
+                        const seat = seatMap.seats.find((s) => s.seat === `${row}${column}`)!;
+                        const selected = seat.seat === selectedSeat;
+                        const fee = feeFor(seat);
+
+                        return (
+                          <button
+                            key={seat.seat}
+                            type="button"
+                            title={`${seat.seat}${seat.extraLegroom ? " • extra legroom" : ""} • ${
+                              fee === 0 ? "free" : formatPrice(fee / exchangeRate, currency)
+                            }`}
+                            disabled={disabled || seat.status !== "available"}
+                            onClick={() => onSelect(seat)}
+                            className={cn(
+                              "w-8 h-8 rounded text-xs font-medium border transition-colors",
+                              selected && "bg-blue-600 border-blue-600 text-white",
+                              !selected && seat.status === "available" && (seat.extraLegroom
+                                ? "bg-green-50 border-green-400 text-green-800 hover:bg-green-100"
+                                : "bg-white border-gray-300 text-gray-700 hover:bg-blue-50"),
+                              !selected && seat.status === "occupied" && "bg-gray-300 border-gray-300 text-gray-500",
+                              !selected && seat.status === "blocked" && "bg-gray-700 border-gray-700 text-gray-700"
+                            )}
+                            data-testid={`seat-${seat.seat}`}
+                          >
+                            {column}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded border border-gray-300 bg-white" />Available</span>
+        <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded border border-green-400 bg-green-50" />Extra legroom</span>
+        <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded bg-gray-300" />Taken</span>
+        <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded bg-blue-600" />Selected</span>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, apiRequest, setTokens, logout as apiLogout } from "@/lib/api";
+import { api, apiRequest, setTokens, getRefreshToken, logout as apiLogout } from "@/lib/api";
 import { User, AuthResponse } from "@/types";
 
 export function useAuth() {
@@ -43,12 +43,26 @@ export function useAuth() {
     },
   });
 
-  const logout = () => {
+  const clearSession = () => {
     apiLogout();
     queryClient.setQueryData(["/api/auth/me"], null);
     queryClient.clear();
   };
 
+  const logout = async () => {
+    const refreshToken = getRefreshToken();
+    if (refreshToken) {
+      // Best effort: the local session is cleared even if revocation fails
+      await apiRequest("POST", "/auth/logout", { refreshToken }).catch(() => undefined);
+    }
+    clearSession();
+  };
+
+  const logoutAll = async () => {
+    await apiRequest("POST", "/auth/logout-all").catch(() => undefined);
+    clearSession();
+  };
+
   return {
     user,
     isLoading,
@@ -56,6 +70,7 @@ export function useAuth() {
     login: loginMutation.mutate,
     register: registerMutation.mutate,
     logout,
+    logoutAll,
     loginLoading: loginMutation.isPending,
     registerLoading: registerMutation.isPending,
     loginError: loginMutation.error,
@@ -20,6 +20,25 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+// Refresh tokens are single-use on the server, so concurrent 401s must share
+// one refresh call instead of each presenting the same token
+let refreshPromise: Promise<string> | null = null;
+
+function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post(`${API_BASE_URL}/auth/refresh`, { refreshToken })
+      .then((response) => {
+        setTokens(response.data.accessToken, response.data.refreshToken);
+        return response.data.accessToken as string;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
 // Response interceptor for token refresh
 api.interceptors.response.use(
   (response) => response,
@@ -31,12 +50,7 @@ api.interceptors.response.use(
 
       try {
         // Try to refresh token
-        const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {
-          refreshToken,
-        });
-
-        const { accessToken: newAccessToken } = response.data;
-        accessToken = newAccessToken;
+        const newAccessToken = await refreshAccessToken();
 
         // Retry original request
         originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
@@ -53,23 +67,37 @@ api.interceptors.response.use(
   }
 );
 
+// Told whenever the access token changes, e.g. so the socket can identify
+// as the new user
+const accessTokenListeners: Array<(token: string | null) => void> = [];
+
+export function onAccessTokenChange(listener: (token: string | null) => void) {
+  accessTokenListeners.push(listener);
+}
+
 // Auth functions
 export function setTokens(access: string, refresh: string) {
   accessToken = access;
   refreshToken = refresh;
   console.log("Tokens set in memory (localStorage not available in this environment)");
+  accessTokenListeners.forEach((listener) => listener(accessToken));
 }
 
 export function logout() {
   accessToken = null;
   refreshToken = null;
   console.log("Tokens cleared from memory");
+  accessTokenListeners.forEach((listener) => listener(accessToken));
 }
 
 export function getAccessToken() {
   return accessToken;
 }
 
+export function getRefreshToken() {
+  return refreshToken;
+}
+
 // API request wrapper for React Query
 export async function apiRequest(
   method: string,
@@ -0,0 +1,23 @@
+import { Payment } from "@/types";
+
+// Test cards of the bundled mock provider
+export const mockCards = [
+  { value: "pm_card_success", label: "Visa •••• 4242 (approved)" },
+  { value: "pm_card_declined", label: "Visa •••• 0002 (declined)" },
+  { value: "pm_card_3ds", label: "Mastercard •••• 3155 (3-D Secure)" },
+  { value: "pm_card_delayed", label: "Visa •••• 1629 (delayed confirmation)" },
+];
+
+// Stands in for the issuer's page; the result arrives by webhook
+export async function answerChallenge(
+  payment: Payment,
+  approve: boolean
+): Promise<{ status: Payment["status"]; failureReason: string | null }> {
+  const res = await fetch(payment.nextAction!.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ approve }),
+  });
+  if (!res.ok) throw new Error("Challenge is no longer pending");
+  return res.json();
+}
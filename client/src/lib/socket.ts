@@ -1,4 +1,5 @@
 import { WebSocketMessage } from "@/types";
+import { getAccessToken, onAccessTokenChange } from "./api";
 
 class SocketService {
   private ws: WebSocket | null = null;
@@ -19,6 +20,7 @@ class SocketService {
     this.ws.onopen = () => {
       console.log("WebSocket connected");
       this.reconnectAttempts = 0;
+      this.identify();
     };
 
     this.ws.onmessage = (event) => {
@@ -40,6 +42,13 @@ class SocketService {
     };
   }
 
+  // Booking events are only sent to sockets identified as their owner
+  identify() {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type: "auth", token: getAccessToken() }));
+    }
+  }
+
   private handleMessage(message: WebSocketMessage) {
     const listeners = this.listeners.get(message.type);
     if (listeners) {
@@ -86,3 +95,5 @@ class SocketService {
 }
 
 export const socketService = new SocketService();
+
+onAccessTokenChange(() => socketService.identify());
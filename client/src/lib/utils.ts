@@ -4,3 +4,53 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatDuration(totalMinutes: number) {
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
+// Rough block time assuming an average cruise speed of 900 km/h
+export function formatFlightTime(distanceKm: number) {
+  return formatDuration(Math.round((distanceKm / 900) * 60))
+}
+
+// Scheduled times are UTC instants; show them in the viewer's local time
+export function formatClockTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+const passengerTypeLabels = {
+  adults: ["Adult", "Adults"],
+  children: ["Child", "Children"],
+  infants: ["Infant", "Infants"],
+} as const
+
+// e.g. "2 Adults, 1 Infant"
+export function formatPaxMix(mix: { adults: number; children: number; infants: number }) {
+  return (Object.keys(passengerTypeLabels) as Array<keyof typeof passengerTypeLabels>)
+    .filter((key) => mix[key] > 0)
+    .map((key) => `${mix[key]} ${passengerTypeLabels[key][mix[key] === 1 ? 0 : 1]}`)
+    .join(", ")
+}
+
+// Rupee amounts are whole; other currencies keep their minor units
+export function formatPrice(amount: number, currency = "INR") {
+  return amount.toLocaleString(undefined, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: currency === "INR" ? 0 : 2,
+  })
+}
+
+// Calendar date ("YYYY-MM-DD") of a UTC instant in the given zone, e.g. a
+// departure's local date at its origin
+export function formatLocalDate(iso: string, timeZone: string) {
+  return new Date(iso).toLocaleDateString("en-CA", { timeZone })
+}
@@ -7,7 +7,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/api";
 import { socketService } from "@/lib/socket";
+import { formatPrice } from "@/lib/utils";
 import { PriceConfig } from "@/types";
+import AircraftCatalog from "@/components/AircraftCatalog";
+import PriceHistory from "@/components/PriceHistory";
+import ScheduledPriceChanges from "@/components/ScheduledPriceChanges";
+import Promotions from "@/components/Promotions";
+import ExchangeRates from "@/components/ExchangeRates";
 import { 
   Users, 
   FileText, 
@@ -44,6 +50,7 @@ export default function AdminPage() {
   // Fetch pricing configuration
   const { data: priceConfig, isLoading: priceConfigLoading } = useQuery<PriceConfig>({
     queryKey: ["/api/admin/pricing"],
+    queryFn: () => apiRequest("GET", "/admin/pricing"),
   });
 
   // Fetch admin stats
@@ -69,6 +76,7 @@ export default function AdminPage() {
         description: "Global pricing configuration has been updated successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing/versions"] });
     },
     onError: (error: any) => {
       toast({
@@ -97,7 +105,12 @@ export default function AdminPage() {
     socketService.connect();
 
     const handlePriceUpdate = (data: any) => {
-      addToActivityFeed("price:update", `Fuel price updated to ₹${data.fuelPricePerLitre}/L`, "orange");
+      addToActivityFeed("price:update", `Pricing v${data.version}: fuel ₹${data.fuelPricePerLitre}/L`, "orange");
+      // Another admin may have made the change
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing/versions"] });
+      // Scheduled changes announce themselves through the same event
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing/scheduled"] });
     };
 
     const handleRouteRecomputed = (data: any) => {
@@ -105,7 +118,7 @@ export default function AdminPage() {
     };
 
     const handleBookingCreated = (data: any) => {
-      addToActivityFeed("booking:created", `New booking: ${data.pnr} • ${data.path.join(" → ")} • ₹${data.total}`, "green");
+      addToActivityFeed("booking:created", `New booking: ${data.pnr} • ${data.path.join(" → ")} • ${formatPrice(data.total, data.currency)}`, "green");
     };
 
     socketService.on("price:update", handlePriceUpdate);
@@ -327,7 +340,7 @@ export default function AdminPage() {
 
               <div>
                 <Label htmlFor="defaultBurnLPerKm" className="block text-sm font-medium text-gray-700 mb-2">
-                  Fuel Burn Rate (L/km)
+                  Default Fuel Burn Rate (L/km)
                 </Label>
                 <Input
                   id="defaultBurnLPerKm"
@@ -400,6 +413,21 @@ export default function AdminPage() {
         </Card>
       </div>
 
+      {/* Pricing Version History */}
+      <PriceHistory currentVersion={priceConfig?.version} />
+
+      {/* Scheduled Pricing Changes */}
+      <ScheduledPriceChanges />
+
+      {/* Promo Codes */}
+      <Promotions />
+
+      {/* Exchange Rates */}
+      <ExchangeRates />
+
+      {/* Aircraft Type Catalog */}
+      <AircraftCatalog />
+
       {/* System Status */}
       <Card className="mt-8">
         <CardHeader>
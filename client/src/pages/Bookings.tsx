@@ -1,17 +1,38 @@
-import { useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import BookingSeats from "@/components/BookingSeats";
+import CancelBooking from "@/components/CancelBooking";
+import PayBooking from "@/components/PayBooking";
 import { socketService } from "@/lib/socket";
-import { Booking } from "@/types";
-import { CheckCircle, FileText, Download, Calendar, Plane } from "lucide-react";
+import { Booking, BookingStatus } from "@/types";
+import { CheckCircle, FileText, Download, Calendar, Plane, Armchair } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";  // ✅ added import
+import { formatPrice } from "@/lib/utils";
+
+const statusBadges: Record<BookingStatus, { label: string; className: string }> = {
+  pending: { label: "Awaiting Payment", className: "bg-yellow-100 text-yellow-800" },
+  paid: { label: "Paid", className: "bg-green-100 text-green-800" },
+  ticketed: { label: "Ticketed", className: "bg-green-100 text-green-800" },
+  confirmed: { label: "Confirmed", className: "bg-green-100 text-green-800" },
+  changed: { label: "Changed", className: "bg-blue-100 text-blue-800" },
+  cancelled: { label: "Cancelled", className: "bg-gray-200 text-gray-700" },
+  refunded: { label: "Refunded", className: "bg-amber-100 text-amber-800" },
+  expired: { label: "Expired", className: "bg-gray-200 text-gray-700" },
+};
+
+// Bookings that will fly and can be managed; pending ones are paid first
+const activeStatuses: BookingStatus[] = ["paid", "ticketed", "confirmed", "changed"];
+const isActive = (booking: Booking) => activeStatuses.includes(booking.status);
 
 export default function BookingsPage() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [seatsPnr, setSeatsPnr] = useState<string | null>(null);
 
   // ✅ Fixed query: fetch bookings from API
   const { data: bookings = [], isLoading } = useQuery<Booking[]>({
@@ -25,17 +46,24 @@ export default function BookingsPage() {
 
     const handleBookingCreated = (data: any) => {
       toast({
-        title: "Booking Confirmed!",
+        title: "Booking Created",
         description: `New booking created: ${data.pnr}`,
       });
     };
 
+    // Payments confirmed by webhook and unpaid bookings expiring
+    const handleBookingUpdated = () => {
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+    };
+
     socketService.on("booking:created", handleBookingCreated);
+    socketService.on("booking:updated", handleBookingUpdated);
 
     return () => {
       socketService.off("booking:created", handleBookingCreated);
+      socketService.off("booking:updated", handleBookingUpdated);
     };
-  }, [toast]);
+  }, [toast, queryClient]);
 
   if (isLoading) {
     return (
@@ -108,9 +136,10 @@ export default function BookingsPage() {
                   </div>
                   <Badge
                     variant="secondary"
-                    className="bg-green-100 text-green-800"
+                    className={statusBadges[booking.status].className}
+                    data-testid={`badge-status-${booking.pnr}`}
                   >
-                    Confirmed
+                    {statusBadges[booking.status].label}
                   </Badge>
                 </div>
 
@@ -129,12 +158,14 @@ export default function BookingsPage() {
                     <span className="font-medium">{booking.fareClass}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Total Paid</span>
+                    <span className="text-gray-600">
+                      {booking.status === "pending" ? "Total Due" : "Total Paid"}
+                    </span>
                     <span
                       className="font-medium text-primary-600"
                       data-testid={`text-total-${booking.pnr}`}
                     >
-                      ₹{booking.total.toLocaleString()}
+                      {formatPrice(booking.total, booking.currency)}
                     </span>
                   </div>
                 </div>
@@ -156,6 +187,26 @@ export default function BookingsPage() {
                     Download Ticket
                   </Button>
                 </div>
+
+                {/* Seats can only be chosen on scheduled flights */}
+                {isActive(booking) && booking.segments?.some((segment) => segment.flightId) && (
+                  <Button
+                    variant="outline"
+                    className="w-full mt-3"
+                    onClick={() => setSeatsPnr(seatsPnr === booking.pnr ? null : booking.pnr)}
+                    data-testid={`button-choose-seats-${booking.pnr}`}
+                  >
+                    <Armchair className="w-4 h-4 mr-2" />
+                    {seatsPnr === booking.pnr ? "Hide Seats" : "Choose Seats"}
+                  </Button>
+                )}
+                {isActive(booking) && seatsPnr === booking.pnr && (
+                  <div className="mt-4 pt-4 border-t">
+                    <BookingSeats pnr={booking.pnr} />
+                  </div>
+                )}
+                {booking.status === "pending" && <PayBooking booking={booking} />}
+                {isActive(booking) && <CancelBooking booking={booking} />}
               </CardContent>
             </Card>
           ))}
@@ -181,7 +232,7 @@ export default function BookingsPage() {
                     </div>
                     <div className="flex-1">
                       <p className="text-sm font-medium text-gray-900">
-                        Booking confirmed for {booking.path.join(" → ")}
+                        Booking {statusBadges[booking.status].label.toLowerCase()} for {booking.path.join(" → ")}
                       </p>
                       <p className="text-sm text-gray-600">
                         PNR: {booking.pnr} •{" "}
@@ -189,7 +240,7 @@ export default function BookingsPage() {
                       </p>
                     </div>
                     <div className="text-sm font-medium text-gray-900">
-                      ₹{booking.total.toLocaleString()}
+                      {formatPrice(booking.total, booking.currency)}
                     </div>
                   </div>
                 ))}
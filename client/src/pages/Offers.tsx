@@ -1,67 +1,103 @@
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import PriceBreakdown from "@/components/PriceBreakdown";
+import FareConditions from "@/components/FareConditions";
 import { apiRequest } from "@/lib/api";
-import { Offer } from "@/types";
+import { formatFlightTime, formatPaxMix, formatPrice } from "@/lib/utils";
+import { PassengerType, QuotedItinerary } from "@/types";
 import { ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
+const algorithmLabels: Record<string, string> = {
+  dijkstra: "Dijkstra (Shortest Path)",
+  astar: "A* (Heuristic)",
+  bellmanford: "Bellman-Ford",
+  floydwarshall: "Floyd-Warshall",
+  yen: "Yen (Alternative Route)",
+  schedule: "Timetable (Earliest Arrival)",
+  pareto: "Multi-criteria (Pareto)",
+};
+
+const passengerTypeLabels: Record<PassengerType, string> = {
+  adult: "Adult",
+  child: "Child",
+  infant: "Infant",
+};
+
+interface TravellerForm {
+  type: PassengerType;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  email: string;
+  phone: string;
+}
+
+function emptyTraveller(type: PassengerType): TravellerForm {
+  return { type, firstName: "", lastName: "", dateOfBirth: "", email: "", phone: "" };
+}
+
 export default function OffersPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  
-  const [selectedOffer, setSelectedOffer] = useState<Offer | null>(null);
-  const [passengerDetails, setPassengerDetails] = useState({
-    firstName: "",
-    lastName: "",
-    email: "",
-    phone: "",
+
+  // One form per traveller the offer was quoted for; the first is the lead
+  // passenger and the booking contact
+  const [travellers, setTravellers] = useState<TravellerForm[]>([]);
+
+  const offerId = new URLSearchParams(window.location.search).get("offerId");
+
+  // Rehydrate the quoted itinerary the server stored for this offer
+  const { data: selectedOffer, isLoading, error } = useQuery<QuotedItinerary>({
+    queryKey: ["offer", offerId],
+    queryFn: () => apiRequest("GET", `/offers/${offerId}`),
+    enabled: !!offerId,
   });
 
-  // In a real app, you'd get the offer from state management or URL params
-  // For now, we'll use mock data based on the selected offer type
   useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search);
-    const offerId = urlParams.get("offerId");
-    
-    if (offerId) {
-      // Mock offer data - in a real app, this would come from the search results
-      const mockOffer: Offer = {
-        offerId,
-        class: "Standard",
-        fareBreakdown: {
-          base: 1500,
-          fuelCost: 1840,
-          ops: 267,
-          taxes: 643,
-          demand: 1.0,
-        },
-        totalFare: 4725,
-        currency: "INR",
-      };
-      setSelectedOffer(mockOffer);
-    }
-  }, []);
+    if (!selectedOffer) return;
+    const { adults, children, infants } = selectedOffer.paxMix;
+    setTravellers([
+      ...Array.from({ length: adults }, () => emptyTraveller("adult")),
+      ...Array.from({ length: children }, () => emptyTraveller("child")),
+      ...Array.from({ length: infants }, () => emptyTraveller("infant")),
+    ]);
+  }, [selectedOffer]);
+
+  const updateTraveller = (index: number, field: keyof TravellerForm, value: string) => {
+    setTravellers((prev) => prev.map((traveller, i) => (i === index ? { ...traveller, [field]: value } : traveller)));
+  };
 
   const bookingMutation = useMutation({
-    mutationFn: (bookingData: any) =>
+    mutationFn: (bookingData: { offerId: string; passengers: Array<Partial<TravellerForm>> }) =>
       apiRequest("POST", "/bookings", bookingData),
     onSuccess: (data) => {
       toast({
-        title: "Booking Confirmed!",
-        description: `Your booking has been confirmed. PNR: ${data.pnr}`,
+        title: "Seats Reserved",
+        description: `Complete payment to confirm booking ${data.pnr}.`,
       });
       setLocation("/bookings");
     },
-    onError: (error) => {
+    onError: (error: any) => {
+      const data = error.response?.data;
+      // The quote is no longer honoured; a new search prices it afresh
+      if (data?.reason === "price_changed") {
+        toast({
+          title: "Price Changed",
+          description: `This fare is now ${formatPrice(data.total, data.currency)} instead of ${formatPrice(data.quotedTotal, data.currency)}. Please search again.`,
+          variant: "destructive",
+        });
+        setLocation("/search");
+        return;
+      }
       toast({
         title: "Booking Failed",
-        description: error.message,
+        description: data?.message || error.message,
         variant: "destructive",
       });
     },
@@ -70,7 +106,14 @@ export default function OffersPage() {
   const handleBooking = () => {
     if (!selectedOffer) return;
 
-    if (!passengerDetails.firstName || !passengerDetails.lastName || !passengerDetails.email) {
+    const incomplete = travellers.some(
+      (traveller, index) =>
+        !traveller.firstName ||
+        !traveller.lastName ||
+        (index === 0 && !traveller.email) ||
+        (traveller.type === "infant" && !traveller.dateOfBirth)
+    );
+    if (incomplete) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required passenger details.",
@@ -79,21 +122,41 @@ export default function OffersPage() {
       return;
     }
 
+    // The server prices the booking from its own record of the offer; blank
+    // optional fields are left out
     bookingMutation.mutate({
       offerId: selectedOffer.offerId,
-      path: ["DEL", "BOM"], // Mock path - in real app, this would come from search results
-      fareBreakdown: selectedOffer.fareBreakdown,
-      total: selectedOffer.totalFare,
-      fareClass: selectedOffer.class,
-      passengerDetails,
+      passengers: travellers.map((traveller) => ({
+        type: traveller.type,
+        firstName: traveller.firstName,
+        lastName: traveller.lastName,
+        dateOfBirth: traveller.dateOfBirth || undefined,
+        email: traveller.email || undefined,
+        phone: traveller.phone || undefined,
+      })),
     });
   };
 
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-6"></div>
+          <div className="h-48 bg-gray-200 rounded-xl"></div>
+        </div>
+      </div>
+    );
+  }
+
   if (!selectedOffer) {
+    const errorMessage = (error as any)?.response?.data?.message;
+
     return (
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="text-center">
-          <h1 className="text-2xl font-bold text-gray-900 mb-4">No offer selected</h1>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            {errorMessage || "No offer selected"}
+          </h1>
           <Button onClick={() => setLocation("/search")} data-testid="button-back-to-search">
             Back to Search
           </Button>
@@ -102,6 +165,8 @@ export default function OffersPage() {
     );
   }
 
+  const route = selectedOffer.route;
+
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
@@ -117,7 +182,9 @@ export default function OffersPage() {
         <h1 className="text-3xl font-bold text-gray-900" data-testid="text-page-title">
           Confirm Your Booking
         </h1>
-        <p className="text-gray-600 mt-2">Delhi (DEL) → Mumbai (BOM) • {new Date().toLocaleDateString()}</p>
+        <p className="text-gray-600 mt-2">
+          {route.path.join(" → ")} • Offer valid until {new Date(selectedOffer.expiresAt).toLocaleTimeString()}
+        </p>
       </div>
 
       {/* Flight Summary */}
@@ -128,15 +195,17 @@ export default function OffersPage() {
             <div className="space-y-3">
               <div className="flex justify-between">
                 <span className="text-gray-600">Route</span>
-                <span className="font-medium" data-testid="text-route">DEL → BOM</span>
+                <span className="font-medium" data-testid="text-route">{route.path.join(" → ")}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Distance</span>
-                <span className="font-medium">1,138 km</span>
+                <span className="font-medium">{Math.round(route.totalDistance).toLocaleString()} km</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Algorithm</span>
-                <span className="font-medium">Dijkstra (Shortest Path)</span>
+                <span className="font-medium">
+                  {algorithmLabels[selectedOffer.algorithm] || selectedOffer.algorithm}
+                </span>
               </div>
             </div>
             <div className="space-y-3">
@@ -146,14 +215,21 @@ export default function OffersPage() {
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Flight Time</span>
-                <span className="font-medium">2h 15m</span>
+                <span className="font-medium">{formatFlightTime(route.totalDistance)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Passengers</span>
-                <span className="font-medium">1 Adult</span>
+                <span className="font-medium">{formatPaxMix(selectedOffer.paxMix)}</span>
               </div>
             </div>
           </div>
+
+          <h3 className="font-medium text-gray-900 mt-6 mb-3">Fare Conditions</h3>
+          <FareConditions
+            rule={selectedOffer.fareRules}
+            currency={selectedOffer.currency}
+            exchangeRate={selectedOffer.exchangeRate}
+          />
         </CardContent>
       </Card>
 
@@ -161,53 +237,75 @@ export default function OffersPage() {
       <Card className="mb-6">
         <CardContent className="p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Passenger Details</h2>
-          <div className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="firstName">First Name *</Label>
-                <Input
-                  id="firstName"
-                  value={passengerDetails.firstName}
-                  onChange={(e) => setPassengerDetails(prev => ({ ...prev, firstName: e.target.value }))}
-                  placeholder="John"
-                  data-testid="input-first-name"
-                />
+          <div className="space-y-6">
+            {travellers.map((traveller, index) => (
+              <div key={index} className="space-y-4" data-testid={`passenger-${index}`}>
+                <h3 className="font-medium text-gray-900">
+                  Passenger {index + 1} • {passengerTypeLabels[traveller.type]}
+                  {index === 0 && <span className="text-sm text-gray-500"> (lead passenger)</span>}
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor={`firstName-${index}`}>First Name *</Label>
+                    <Input
+                      id={`firstName-${index}`}
+                      value={traveller.firstName}
+                      onChange={(e) => updateTraveller(index, "firstName", e.target.value)}
+                      placeholder="John"
+                      data-testid={`input-first-name-${index}`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`lastName-${index}`}>Last Name *</Label>
+                    <Input
+                      id={`lastName-${index}`}
+                      value={traveller.lastName}
+                      onChange={(e) => updateTraveller(index, "lastName", e.target.value)}
+                      placeholder="Doe"
+                      data-testid={`input-last-name-${index}`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`dateOfBirth-${index}`}>
+                      Date of Birth{traveller.type === "infant" && " *"}
+                    </Label>
+                    <Input
+                      id={`dateOfBirth-${index}`}
+                      type="date"
+                      value={traveller.dateOfBirth}
+                      onChange={(e) => updateTraveller(index, "dateOfBirth", e.target.value)}
+                      data-testid={`input-date-of-birth-${index}`}
+                    />
+                  </div>
+                </div>
+                {index === 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="email">Email *</Label>
+                      <Input
+                        id="email"
+                        type="email"
+                        value={traveller.email}
+                        onChange={(e) => updateTraveller(index, "email", e.target.value)}
+                        placeholder="john.doe@example.com"
+                        data-testid="input-email"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="phone">Phone</Label>
+                      <Input
+                        id="phone"
+                        type="tel"
+                        value={traveller.phone}
+                        onChange={(e) => updateTraveller(index, "phone", e.target.value)}
+                        placeholder="+91 98765 43210"
+                        data-testid="input-phone"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
-              <div>
-                <Label htmlFor="lastName">Last Name *</Label>
-                <Input
-                  id="lastName"
-                  value={passengerDetails.lastName}
-                  onChange={(e) => setPassengerDetails(prev => ({ ...prev, lastName: e.target.value }))}
-                  placeholder="Doe"
-                  data-testid="input-last-name"
-                />
-              </div>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="email">Email *</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={passengerDetails.email}
-                  onChange={(e) => setPassengerDetails(prev => ({ ...prev, email: e.target.value }))}
-                  placeholder="john.doe@example.com"
-                  data-testid="input-email"
-                />
-              </div>
-              <div>
-                <Label htmlFor="phone">Phone</Label>
-                <Input
-                  id="phone"
-                  type="tel"
-                  value={passengerDetails.phone}
-                  onChange={(e) => setPassengerDetails(prev => ({ ...prev, phone: e.target.value }))}
-                  placeholder="+91 98765 43210"
-                  data-testid="input-phone"
-                />
-              </div>
-            </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -219,6 +317,8 @@ export default function OffersPage() {
           <PriceBreakdown 
             fareBreakdown={selectedOffer.fareBreakdown}
             totalFare={selectedOffer.totalFare}
+            currency={selectedOffer.currency}
+            exchangeRate={selectedOffer.exchangeRate}
             showDemand={true}
           />
         </CardContent>
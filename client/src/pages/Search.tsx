@@ -1,6 +1,9 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -11,29 +14,32 @@ import {
 import AirportSearch from "@/components/AirportSearch";
 import RouteMap from "@/components/RouteMap";
 import PriceBreakdown from "@/components/PriceBreakdown";
-import { Airport, RouteSegment, Offer } from "@/types";
+import FareConditions from "@/components/FareConditions";
+import { formatClockTime, formatDuration, formatFlightTime, formatPrice } from "@/lib/utils";
+import { Airport, RouteSegment, RouteResult, Offer, PaxMix, ExchangeRate } from "@/types";
 import { Search, Plane, Clock, MapPin } from "lucide-react";
 
-interface RouteResult {
-  path: string[];
-  segments: Array<{
-    from: string;
-    to: string;
-    distanceKm: number;
-  }>;
-  totalDistance: number;
-}
-
 interface QuoteResult {
   route: RouteResult;
   offers: Offer[];
   config: any;
+  alternatives: Array<{
+    route: RouteResult;
+    offers: Offer[];
+  }>;
 }
 
 export default function SearchPage() {
+  const [, setLocation] = useLocation();
   const [fromCode, setFromCode] = useState("");
   const [toCode, setToCode] = useState("");
   const [algorithm, setAlgorithm] = useState("dijkstra");
+  const [departureDate, setDepartureDate] = useState("");
+  // "shortest" keeps the selected algorithm; the others rank the Pareto set
+  const [optimize, setOptimize] = useState("shortest");
+  const [promoCode, setPromoCode] = useState("");
+  const [paxMix, setPaxMix] = useState<PaxMix>({ adults: 1, children: 0, infants: 0 });
+  const [currency, setCurrency] = useState("INR");
   const [searchTriggered, setSearchTriggered] = useState(false);
 
   // Fetch airports for the map
@@ -46,19 +52,35 @@ export default function SearchPage() {
     },
   });
 
+  // Currencies with a maintained rate; fares are always available in INR
+  const { data: exchangeRates = [] } = useQuery<ExchangeRate[]>({
+    queryKey: ["exchange-rates"],
+    queryFn: async () => {
+      const res = await fetch("/api/exchange-rates");
+      if (!res.ok) throw new Error("Failed to fetch exchange rates");
+      return res.json();
+    },
+  });
+
   // Fetch route and pricing data
   const {
     data: quoteData,
     isLoading,
     error,
   } = useQuery<QuoteResult>({
-    queryKey: ["quote", fromCode, toCode, algorithm],
+    queryKey: ["quote", fromCode, toCode, algorithm, departureDate, optimize, promoCode, paxMix, currency],
     queryFn: async () => {
       console.log(
         `Fetching quote for ${fromCode} -> ${toCode} using ${algorithm}`
       );
+      // A departure date switches the search to the flight timetable
+      const dateParam = departureDate ? `&date=${departureDate}` : "";
+      const optimizeParam =
+        !departureDate && optimize !== "shortest" ? `&optimize=${optimize}` : "";
+      const promoParam = promoCode ? `&promoCode=${encodeURIComponent(promoCode)}` : "";
+      const paxParam = `&adults=${paxMix.adults}&children=${paxMix.children}&infants=${paxMix.infants}`;
       const res = await fetch(
-        `/api/quote?from=${fromCode}&to=${toCode}&algorithm=${algorithm}&pax=1`
+        `/api/quote?from=${fromCode}&to=${toCode}&algorithm=${algorithm}${paxParam}&alternatives=3${dateParam}${optimizeParam}${promoParam}&currency=${currency}`
       );
 
       if (!res.ok) {
@@ -86,21 +108,9 @@ export default function SearchPage() {
     setSearchTriggered(true);
   };
 
-  const calculateFlightTime = (distanceKm: number) => {
-    // Average commercial flight speed: 900 km/h
-    const hours = distanceKm / 900;
-    const totalMinutes = Math.round(hours * 60);
-    const displayHours = Math.floor(totalMinutes / 60);
-    const displayMinutes = totalMinutes % 60;
-
-    if (displayHours > 0) {
-      return `${displayHours}h ${displayMinutes}m`;
-    }
-    return `${displayMinutes}m`;
-  };
-
   const route = quoteData?.route;
   const offers = quoteData?.offers || [];
+  const alternatives = quoteData?.alternatives || [];
   const hasValidRoute =
     route && route.path.length > 0 && route.totalDistance > 0;
 
@@ -151,6 +161,74 @@ export default function SearchPage() {
                     </SelectItem>
                   </SelectContent>
                 </Select>
+
+                <label className="block text-sm font-medium text-gray-700 mt-3 mb-2">
+                  Passengers
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(
+                    [
+                      ["adults", "Adults"],
+                      ["children", "Children"],
+                      ["infants", "Infants"],
+                    ] as const
+                  ).map(([key, label]) => (
+                    <div key={key}>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={9}
+                        value={paxMix[key]}
+                        onChange={(e) =>
+                          setPaxMix((prev) => ({ ...prev, [key]: Math.max(0, parseInt(e.target.value) || 0) }))
+                        }
+                        data-testid={`input-${key}`}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">{label}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="md:col-span-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Departure Date
+                </label>
+                <Input
+                  type="date"
+                  value={departureDate}
+                  onChange={(e) => setDepartureDate(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Optional: plans real flights from the timetable
+                </p>
+
+                <label className="block text-sm font-medium text-gray-700 mt-3 mb-2">
+                  Promo Code
+                </label>
+                <Input
+                  value={promoCode}
+                  onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                  placeholder="Optional"
+                  data-testid="input-promo-code"
+                />
+
+                <label className="block text-sm font-medium text-gray-700 mt-3 mb-2">
+                  Currency
+                </label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger data-testid="select-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="INR">INR</SelectItem>
+                    {exchangeRates.map((rate) => (
+                      <SelectItem key={rate.currency} value={rate.currency}>
+                        {rate.currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
               <div className="md:col-span-1 flex items-end">
@@ -205,7 +283,9 @@ export default function SearchPage() {
                   <span className="text-sm text-gray-600">Flight Time:</span>
                   <span className="text-sm">
                     {hasValidRoute
-                      ? calculateFlightTime(route.totalDistance)
+                      ? route.durationMinutes !== undefined
+                        ? formatDuration(route.durationMinutes)
+                        : formatFlightTime(route.totalDistance)
                       : "-"}
                   </span>
                 </div>
@@ -241,6 +321,29 @@ export default function SearchPage() {
                 Available Flights
               </h2>
 
+              {searchTriggered && !departureDate && (
+                <Tabs value={optimize} onValueChange={setOptimize} className="mb-4">
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="shortest">Shortest</TabsTrigger>
+                    <TabsTrigger value="price">Cheapest</TabsTrigger>
+                    <TabsTrigger value="duration">Fastest</TabsTrigger>
+                    <TabsTrigger value="stops">Fewest Stops</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              )}
+
+              {hasValidRoute && route.cost && (
+                <div className="mb-4 text-sm text-gray-600 flex justify-between">
+                  <span>
+                    {route.cost.stops === 0
+                      ? "Non-stop"
+                      : `${route.cost.stops} stop${route.cost.stops > 1 ? "s" : ""}`}
+                  </span>
+                  <span>~{formatDuration(route.cost.durationMinutes)}</span>
+                  <span>from ~{formatPrice(route.cost.price)}</span>
+                </div>
+              )}
+
               {isLoading && (
                 <div className="flex items-center justify-center py-8">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -319,7 +422,7 @@ export default function SearchPage() {
                         </div>
                         <div className="text-right">
                           <div className="text-2xl font-bold text-gray-900">
-                            ₹{offer.totalFare.toLocaleString()}
+                            {formatPrice(offer.totalFare, offer.currency)}
                           </div>
                           <div className="text-sm text-gray-600">
                             per person
@@ -331,7 +434,7 @@ export default function SearchPage() {
                       <div className="flex items-center text-sm text-gray-600 mb-3">
                         <div className="flex items-center">
                           <Clock className="w-4 h-4 mr-1" />
-                          {calculateFlightTime(route.totalDistance)}
+                          {formatFlightTime(route.totalDistance)}
                         </div>
                         <div className="mx-2">•</div>
                         <div>{route.totalDistance.toFixed(0)} km</div>
@@ -342,19 +445,25 @@ export default function SearchPage() {
                         </div>
                       </div>
 
+                      {/* Fare Conditions */}
+                      <FareConditions
+                        rule={offer.fareRules}
+                        currency={offer.currency}
+                        exchangeRate={offer.exchangeRate}
+                      />
+
                       {/* Price Breakdown */}
                       <PriceBreakdown
                         fareBreakdown={offer.fareBreakdown}
                         totalFare={offer.totalFare}
+                        currency={offer.currency}
+                        exchangeRate={offer.exchangeRate}
                         showDemand={true}
                       />
 
                       <Button
                         className="w-full mt-4 bg-blue-600 hover:bg-blue-700"
-                        onClick={() => {
-                          // Handle flight selection
-                          console.log("Selected flight:", offer.offerId);
-                        }}
+                        onClick={() => setLocation(`/offers?offerId=${offer.offerId}`)}
                       >
                         Select Flight
                       </Button>
@@ -362,6 +471,60 @@ export default function SearchPage() {
                   ))}
                 </div>
               )}
+
+              {/* Alternative Itineraries */}
+              {hasValidRoute && alternatives.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-semibold mb-3">Alternative Routes</h3>
+                  <div className="space-y-3">
+                    {alternatives.map(({ route: altRoute, offers: altOffers }) => {
+                      const cheapest = altOffers.reduce<Offer | null>(
+                        (best, offer) => (!best || offer.totalFare < best.totalFare ? offer : best),
+                        null
+                      );
+
+                      return (
+                        <div
+                          key={altRoute.path.join("-")}
+                          className="border border-gray-200 rounded-lg p-4"
+                          data-testid={`alternative-${altRoute.path.join("-")}`}
+                        >
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <div className="font-medium text-gray-900">
+                                {altRoute.path.join(" → ")}
+                              </div>
+                              <div className="text-sm text-gray-600 mt-1">
+                                {altRoute.totalDistance.toFixed(0)} km •{" "}
+                                {formatFlightTime(altRoute.totalDistance)} •{" "}
+                                {altRoute.path.length - 2}{" "}
+                                {altRoute.path.length - 2 === 1 ? "stop" : "stops"}
+                              </div>
+                            </div>
+                            {cheapest && (
+                              <div className="text-right">
+                                <div className="text-lg font-bold text-gray-900">
+                                  {formatPrice(cheapest.totalFare, cheapest.currency)}
+                                </div>
+                                <div className="text-xs text-gray-600">from ({cheapest.class})</div>
+                              </div>
+                            )}
+                          </div>
+                          {cheapest && (
+                            <Button
+                              variant="outline"
+                              className="w-full mt-3"
+                              onClick={() => setLocation(`/offers?offerId=${cheapest.offerId}`)}
+                            >
+                              Select Route
+                            </Button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -390,6 +553,11 @@ export default function SearchPage() {
                       <th className="text-right py-2 px-3 text-sm font-medium text-gray-600">
                         Flight Time
                       </th>
+                      {route.departure && (
+                        <th className="text-right py-2 px-3 text-sm font-medium text-gray-600">
+                          Flight
+                        </th>
+                      )}
                     </tr>
                   </thead>
                   <tbody>
@@ -406,8 +574,15 @@ export default function SearchPage() {
                           {segment.distanceKm.toFixed(1)} km
                         </td>
                         <td className="py-2 px-3 text-sm text-right">
-                          {calculateFlightTime(segment.distanceKm)}
+                          {segment.departure && segment.arrival
+                            ? `${formatClockTime(segment.departure)} – ${formatClockTime(segment.arrival)}`
+                            : formatFlightTime(segment.distanceKm)}
                         </td>
+                        {route.departure && (
+                          <td className="py-2 px-3 text-sm text-right">
+                            {segment.flightNumber}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -422,8 +597,11 @@ export default function SearchPage() {
                         {route.totalDistance.toFixed(1)} km
                       </td>
                       <td className="py-2 px-3 text-sm text-right">
-                        {calculateFlightTime(route.totalDistance)}
+                        {route.durationMinutes !== undefined
+                          ? formatDuration(route.durationMinutes)
+                          : formatFlightTime(route.totalDistance)}
                       </td>
+                      {route.departure && <td />}
                     </tr>
                   </tfoot>
                 </table>
@@ -6,6 +6,7 @@ export interface Airport {
   country: string;
   lat: number;
   lon: number;
+  timezone: string; // IANA zone
 }
 
 export interface RouteSegment {
@@ -14,12 +15,56 @@ export interface RouteSegment {
   distanceKm: number;
   algorithm?: string; // Optional algorithm identifier
   distance?: number; // Alternative property name for compatibility
+  // Present when the route was planned against the flight timetable
+  flightId?: string;
+  flightNumber?: string;
+  departure?: string; // ISO-8601 UTC
+  arrival?: string; // ISO-8601 UTC
+  aircraftType?: string | null; // catalog code from the flight or route edge
+}
+
+// Cost vector of a Pareto-optimal route; duration and price are estimates
+export interface RouteCost {
+  distance: number;
+  price: number;
+  stops: number;
+  durationMinutes: number;
 }
 
 export interface RouteResult {
   path: string[];
   segments: RouteSegment[];
   totalDistance: number;
+  departure?: string;
+  arrival?: string;
+  durationMinutes?: number;
+  cost?: RouteCost;
+}
+
+// Itemised tax or airport charge per adult passenger, or a discount
+// (negative, total over all passengers)
+export interface FareLine {
+  kind: "tax" | "airport_charge" | "discount";
+  code: string;
+  label: string;
+  amount: number;
+}
+
+export type PassengerType = "adult" | "child" | "infant";
+
+export interface PaxMix {
+  adults: number;
+  children: number;
+  infants: number;
+}
+
+// What each passenger of a type pays in the offer's fare class
+export interface PassengerFare {
+  type: PassengerType;
+  count: number;
+  fare: number;
+  discount: number;
+  total: number;
 }
 
 export interface FareBreakdown {
@@ -28,6 +73,8 @@ export interface FareBreakdown {
   ops: number;
   taxes: number;
   demand: number;
+  lines?: FareLine[]; // absent on fares priced before itemisation
+  passengers?: PassengerFare[]; // absent on fares priced before passenger types
 }
 
 export interface Offer {
@@ -36,6 +83,40 @@ export interface Offer {
   fareBreakdown: FareBreakdown;
   totalFare: number;
   currency: string;
+  totalFareInr: number;
+  exchangeRate: number;
+  fareRules: FareRule;
+}
+
+// Conditions a fare class is sold with; the change fee is INR per seated traveller
+export interface FareRule {
+  refundRate: number;
+  changeFee: number;
+  baggageKg: number;
+  freeSeatSelection: boolean;
+  cancellationDeadlineHours: number;
+}
+
+export type FareRules = Record<Offer["class"], FareRule>;
+
+export interface QuotedItinerary {
+  offerId: string;
+  class: Offer["class"];
+  route: RouteResult;
+  algorithm: string;
+  pax: number;
+  paxMix: PaxMix;
+  fareBreakdown: FareBreakdown;
+  totalFare: number;
+  currency: string;
+  totalFareInr: number;
+  exchangeRate: number;
+  configVersion: number;
+  priceChangeIds: string[];
+  departsAt: string | null;
+  promoCode: string | null;
+  fareRules: FareRule;
+  expiresAt: string;
 }
 
 export interface Booking {
@@ -45,8 +126,122 @@ export interface Booking {
   path: string[];
   fareBreakdown: FareBreakdown;
   total: number;
+  currency: string;
+  totalInr: number | null;
+  exchangeRate: number;
   fareClass: string;
+  configVersion: number | null;
+  priceChangeIds: string[] | null;
+  fareRules: FareRule | null;
+  departsAt: string | null;
+  seatHoldId: string | null;
+  segments: ItinerarySegment[] | null;
+  status: BookingStatus;
+  paymentDueAt: string | null;
+  ticketedAt: string | null;
+  cancelledAt: string | null;
+  itineraryVersion: number;
+  createdAt: string;
+}
+
+export type BookingStatus =
+  | "pending"
+  | "paid"
+  | "ticketed"
+  | "confirmed"
+  | "cancelled"
+  | "refunded"
+  | "changed"
+  | "expired";
+
+export type PaymentStatus =
+  | "requires_payment_method"
+  | "processing"
+  | "requires_action"
+  | "authorized"
+  | "captured"
+  | "cancelled"
+  | "refunded";
+
+export interface Payment {
+  id: string;
+  bookingId: string;
+  userId: string;
+  provider: string;
+  providerRef: string;
+  amount: number;
+  currency: string;
+  amountInr: number;
+  amountRefunded: number;
+  status: PaymentStatus;
+  nextAction: { type: "challenge"; url: string } | null;
+  failureReason: string | null;
+  details: { kind: "change" | "seat" } | null; // what a charge pays for; null for the fare
   createdAt: string;
+  updatedAt: string;
+}
+
+// Timetable itineraries also carry the flight and its times
+export interface ItinerarySegment {
+  from: string;
+  to: string;
+  distanceKm: number;
+  aircraftType?: string | null;
+  flightId?: string;
+  flightNumber?: string;
+  departure?: string;
+  arrival?: string;
+}
+
+export interface ExchangeRate {
+  currency: string;
+  inrPerUnit: number;
+  roundingIncrement: number;
+  updatedAt: string;
+}
+
+export interface Passenger {
+  id: string;
+  bookingId: string;
+  position: number;
+  type: PassengerType;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface BookingWithPassengers extends Booking {
+  passengers: Passenger[];
+  seats: SeatAssignment[];
+  itineraries: BookingItinerary[];
+  payments: Payment[];
+}
+
+// An itinerary the booking was changed away from, with what the change
+// cost in the booking's currency
+export interface BookingItinerary {
+  id: string;
+  bookingId: string;
+  version: number;
+  path: string[];
+  segments: ItinerarySegment[] | null;
+  fareBreakdown: FareBreakdown;
+  total: number;
+  totalInr: number | null;
+  exchangeRate: number;
+  fareClass: string;
+  configVersion: number | null;
+  priceChangeIds: string[] | null;
+  fareRules: FareRule | null;
+  departsAt: string | null;
+  fareDifference: number;
+  changeFee: number;
+  charged: number;
+  chargedInr: number;
+  changedBy: string | null;
+  replacedAt: string;
 }
 
 export interface User {
@@ -56,6 +251,29 @@ export interface User {
   role: string;
 }
 
+// Parameters of the demand factor curve applied to quotes
+export interface DemandCurve {
+  baseline: number;
+  min: number;
+  max: number;
+  windowDays: number;
+  peakBookingsPerDay: number;
+  bookingWeight: number;
+  loadThreshold: number;
+  loadWeight: number;
+  advanceDays: number;
+  advanceWeight: number;
+}
+
+export interface PassengerTypeRule {
+  fareMultiplier: number;
+  fuel: boolean;
+  taxes: boolean;
+  airportCharges: boolean;
+}
+
+export type PassengerRules = Record<PassengerType, PassengerTypeRule>;
+
 export interface PriceConfig {
   id: string;
   fuelPricePerLitre: number;
@@ -63,9 +281,154 @@ export interface PriceConfig {
   taxRate: number;
   feeRate: number;
   baseFare: number;
+  demandCurve: DemandCurve;
+  passengerRules: PassengerRules;
+  fareRules: FareRules;
+  version: number;
+  updatedAt: string;
+}
+
+// Fuel burn for legs up to maxDistanceKm (null = no upper bound)
+export interface BurnBand {
+  maxDistanceKm: number | null;
+  burnLPerKm: number;
+}
+
+export interface AircraftType {
+  id: string;
+  code: string;
+  name: string;
+  seatCapacity: number;
+  cruiseSpeedKmh: number;
+  burnBands: BurnBand[];
+  seatLayout: SeatLayout | null;
   updatedAt: string;
 }
 
+// Columns are seat letters, a space marking an aisle, e.g. "ABC DEF"
+export interface SeatCabin {
+  name: string;
+  firstRow: number;
+  lastRow: number;
+  columns: string;
+}
+
+// Seat fees are INR
+export interface SeatLayout {
+  cabins: SeatCabin[];
+  exitRows: number[];
+  blockedSeats: string[];
+  seatFee: number;
+  extraLegroomFee: number;
+}
+
+export interface SeatMapSeat {
+  seat: string;
+  row: number;
+  column: string;
+  cabin: string;
+  extraLegroom: boolean;
+  fee: number; // INR, before the fare's free seat selection is applied
+  status: "available" | "occupied" | "blocked";
+}
+
+export interface SeatMap {
+  flightId: string;
+  flightNumber: string;
+  aircraftType: string;
+  departureDate: string;
+  cabins: SeatCabin[];
+  seats: SeatMapSeat[];
+}
+
+export interface SeatAssignment {
+  id: string;
+  bookingId: string;
+  passengerId: string;
+  flightId: string;
+  departureDate: string;
+  seat: string;
+  fee: number;
+  feeInr: number;
+  status: "held" | "assigned"; // held while its fee is being paid
+  createdAt: string;
+}
+
+export interface Refund {
+  id: string;
+  bookingId: string;
+  userId: string;
+  reason: string;
+  amount: number;
+  currency: string;
+  amountInr: number;
+  refundRate: number;
+  paymentId: string | null;
+  createdAt: string;
+}
+
+// What cancelling a booking now would refund
+export interface CancellationQuote {
+  pnr: string;
+  refund: number;
+  refundInr: number;
+  currency: string;
+  refundRate: number;
+  withinDeadline: boolean;
+  deadline: string | null;
+}
+
+// Immutable snapshot of the price config
+export interface PriceConfigVersion {
+  version: number;
+  fuelPricePerLitre: number;
+  defaultBurnLPerKm: number;
+  taxRate: number;
+  feeRate: number;
+  baseFare: number;
+  demandCurve: DemandCurve;
+  passengerRules: PassengerRules;
+  fareRules: FareRules;
+  authorId: string | null;
+  authorName: string | null;
+  rollbackOf: number | null;
+  createdAt: string;
+}
+
+export interface PriceConfigDiff {
+  from: number;
+  to: number;
+  changes: Array<{ field: string; from: number | boolean; to: number | boolean }>;
+}
+
+export interface Promotion {
+  id: string;
+  code: string;
+  name: string;
+  kind: "percent" | "fixed";
+  value: number;
+  origin: string | null;
+  destination: string | null;
+  fareClasses: Array<Offer["class"]> | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  stackable: boolean;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface ScheduledPriceChange {
+  id: string;
+  changes: Partial<Omit<PriceConfig, "id" | "version" | "updatedAt">>;
+  effectiveAt: string;
+  status: "pending" | "applied" | "cancelled";
+  authorId: string;
+  appliedVersion: number | null;
+  createdAt: string;
+}
+
 export interface AuthResponse {
   user: User;
   accessToken: string;
@@ -73,7 +436,15 @@ export interface AuthResponse {
 }
 
 export interface WebSocketMessage {
-  type: "price:update" | "route:recomputed" | "booking:created";
+  type:
+    | "price:update"
+    | "route:recomputed"
+    | "booking:created"
+    | "booking:updated"
+    | "booking:cancelled"
+    | "booking:changed"
+    | "seat:assigned"
+    | "seat:released";
   data: any;
 }
 
@@ -82,4 +453,9 @@ export interface QuoteResponse {
   route: RouteResult;
   offers: Offer[];
   config: PriceConfig;
+  expiresAt: string;
+  alternatives: Array<{
+    route: RouteResult;
+    offers: Offer[];
+  }>;
 }
\ No newline at end of file
@@ -4,7 +4,12 @@ import { setupVite, serveStatic, log } from "./vite";
 
 
 const app = express();
-app.use(express.json());
+// Payment webhooks are verified against the exact bytes that were signed
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request & { rawBody?: Buffer }).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
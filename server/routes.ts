@@ -1,21 +1,128 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
+import { storage, type BookingChange } from "./storage";
 import { 
   loginSchema, 
   registerSchema, 
   routeComputeSchema, 
   priceQuoteSchema,
+  createBookingSchema,
+  assignSeatSchema,
+  changeBookingSchema,
+  payBookingSchema,
+  paxMixSchema,
+  insertRouteEdgeSchema,
+  insertFlightSchema,
+  insertAircraftTypeSchema,
+  insertAirportChargeSchema,
+  insertTaxRuleSchema,
+  updatePriceConfigSchema,
+  schedulePriceChangeSchema,
+  insertPromotionSchema,
+  updatePromotionSchema,
+  insertExchangeRateSchema,
+  type Booking,
+  type SeatAssignment,
 } from "@shared/schema";
-import { verifyAccessToken } from "./services/auth";
-import { computeRoute } from "./services/graph";
-import { generatePriceQuote } from "./services/pricing";
+import {
+  hashPassword,
+  verifyPassword,
+  generateTokens,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeAllRefreshTokens,
+  verifyAccessToken,
+  toPublicUser,
+  type DeviceInfo,
+  type JWTPayload,
+} from "./services/auth";
+import {
+  computeRoute,
+  computeTimedRoute,
+  computeAlternativeRoutes,
+  computeParetoRoutes,
+  rankParetoRoutes,
+  routeDeparture,
+  type Graph,
+  type RouteAlgorithm,
+  type RouteConstraints,
+  type RouteResult,
+} from "./services/graph";
+import { routeGraph } from "./services/routeGraph";
+import { demandService } from "./services/demandSource";
+import { priceScheduler } from "./services/priceScheduler";
+import {
+  BASE_CURRENCY,
+  getConversion,
+  convertFromInr,
+  convertOffers,
+  parseExchangeRateCsv,
+} from "./services/currency";
+import {
+  parsePromoCodes,
+  resolvePromotions,
+  claimPromotions,
+  releasePromotions,
+  recordRedemptions,
+  promotionFailureResponses,
+} from "./services/promotions";
+import { holdSeats, confirmSeats, releaseSeats, seatHoldFailureResponses, HOLD_TTL_MS } from "./services/inventory";
+import {
+  getSeatMap,
+  selectSeat,
+  assignSeat,
+  holdSeat,
+  applySeatPayment,
+  releaseSeatPayment,
+  operatesOn,
+  seatAssignmentFailureResponses,
+} from "./services/seatMap";
+import {
+  quoteCancellation,
+  cancelBooking,
+  cancellationBlocker,
+  cancellationFailureResponses,
+} from "./services/cancellation";
+import {
+  changeBlocker,
+  priceChange,
+  changeFailureResponses,
+  changePaymentDetails,
+  applyChangePayment,
+  releaseChangePayment,
+} from "./services/bookingChanges";
+import { paymentService, paymentFailureResponses, type ChargeRequest, type PaymentResult } from "./services/payments";
+import { mockPaymentProvider } from "./services/mockPaymentProvider";
+import {
+  diffPriceConfigVersions,
+  rollbackPriceConfig,
+  rollbackFailureResponses,
+} from "./services/priceHistory";
+import {
+  buildPricingContext,
+  fareBeforeDiscounts,
+  fareEstimator,
+  generatePriceQuote,
+  repriceOffer,
+  type PricingContext,
+} from "./services/pricing";
+import {
+  saveQuotedOffers,
+  getQuotedOffer,
+  takeQuotedOffer,
+  releaseQuotedOffer,
+  toQuotedItinerary,
+  travellersMatchPaxMix,
+  offerUnavailableResponses,
+} from "./services/offers";
+import { generatePnr } from "./utils/pnr";
 import rateLimit from "express-rate-limit";
 import helmet from "helmet";
 import cors from "cors";
 import fetch from "node-fetch";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 
 // -----------------------------
 // Middleware helpers
@@ -49,18 +156,124 @@ async function requireAdmin(req: AuthenticatedRequest, res: Response, next: Next
   next();
 }
 
+function deviceInfo(req: Request): DeviceInfo {
+  return { userAgent: req.get("user-agent"), ip: req.ip };
+}
+
+const refreshTokenSchema = z.object({ refreshToken: z.string().min(1) });
+
+// Comma-separated IATA codes, e.g. "avoid=DEL,BOM"
+const airportCodeList = z
+  .string()
+  .optional()
+  .transform(value => (value ? value.split(",").map(code => code.trim().toUpperCase()).filter(Boolean) : []))
+  .pipe(z.array(z.string().length(3)));
+
+const routeConstraintsQuery = {
+  maxStops: z.coerce.number().int().min(0).optional(),
+  avoid: airportCodeList,
+  via: airportCodeList,
+};
+
+// Local departure date at the origin, e.g. "date=2025-03-14"
+const departureDateQuery = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+
+async function loadPricingContext(): Promise<PricingContext> {
+  const [aircraftTypes, routes, airportCharges, taxRules, airports] = await Promise.all([
+    storage.getAircraftTypes(),
+    storage.getActiveRoutes(),
+    storage.getAirportCharges(),
+    storage.getTaxRules(),
+    storage.getAllAirports(),
+  ]);
+  return buildPricingContext({ aircraftTypes, routes, airportCharges, taxRules, airports });
+}
+
+async function isKnownAircraftType(code: string): Promise<boolean> {
+  return (await storage.getAircraftTypes()).some(t => t.code === code);
+}
+
+// With a departure date the flight timetable decides the itinerary;
+// otherwise the chosen graph algorithm does
+async function findRoute(
+  graph: Graph,
+  from: string,
+  to: string,
+  algorithm: RouteAlgorithm,
+  constraints: RouteConstraints,
+  date?: string
+): Promise<RouteResult | null> {
+  if (!date) return computeRoute(graph, from, to, algorithm, constraints);
+
+  const flights = await storage.getActiveFlights();
+  return computeTimedRoute(graph, flights, from, to, date, constraints);
+}
+
 // -----------------------------
 // WebSocket setup
 // -----------------------------
-const wsClients = new Set<WebSocket>();
+// Sockets are anonymous until they identify with an access token
+const wsClients = new Map<WebSocket, JWTPayload | null>();
 function broadcastToClients(message: any) {
-  wsClients.forEach(ws => {
+  wsClients.forEach((_user, ws) => {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
   });
 }
 
+// Booking events carry the PNR, which is enough to act on a booking, so
+// they only go to the owner's sockets and to admins
+function sendToBookingOwner(userId: string, message: any) {
+  wsClients.forEach((user, ws) => {
+    if (ws.readyState === WebSocket.OPEN && user && (user.userId === userId || user.role === "admin")) {
+      ws.send(JSON.stringify(message));
+    }
+  });
+}
+
+// Seat maps refresh once per departure whose seats were freed
+function broadcastReleasedSeats(assignments: SeatAssignment[]) {
+  const departures = new Map<string, { flightId: string; departureDate: string; seats: string[] }>();
+  for (const assignment of assignments) {
+    const key = `${assignment.flightId}:${assignment.departureDate}`;
+    const departure = departures.get(key)
+      ?? { flightId: assignment.flightId, departureDate: assignment.departureDate, seats: [] };
+    departure.seats.push(assignment.seat);
+    departures.set(key, departure);
+  }
+  for (const departure of Array.from(departures.values())) {
+    broadcastToClients({ type: "seat:released", data: departure });
+  }
+}
+
+function broadcastSeatAssigned(assignment: SeatAssignment, replaced?: SeatAssignment) {
+  broadcastToClients({
+    type: "seat:assigned",
+    data: {
+      flightId: assignment.flightId,
+      departureDate: assignment.departureDate,
+      seat: assignment.seat,
+      released: replaced && replaced.seat !== assignment.seat ? replaced.seat : null,
+    },
+  });
+}
+
+function broadcastBookingChange(change: BookingChange) {
+  broadcastReleasedSeats(change.releasedSeats);
+  sendToBookingOwner(change.booking.userId, {
+    type: "booking:changed",
+    data: {
+      pnr: change.booking.pnr,
+      path: change.booking.path,
+      previousPath: change.previous.path,
+      charged: change.previous.charged,
+      currency: change.booking.currency,
+      fareClass: change.booking.fareClass,
+    },
+  });
+}
+
 // -----------------------------
 // External API setup
 // -----------------------------
@@ -95,6 +308,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     credentials: true,
   }));
 
+  // ✅ Auth
+  app.post("/api/auth/register", authLimiter, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = registerSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+    const { email, password, name } = parsed.data;
+
+    const existing = await storage.getUserByEmail(email.toLowerCase());
+    if (existing) return res.status(409).json({ message: "An account with this email already exists" });
+
+    const user = await storage.createUser({
+      email: email.toLowerCase(),
+      passwordHash: await hashPassword(password),
+      name,
+    });
+
+    const tokens = await generateTokens(user, deviceInfo(req));
+    return res.status(201).json({ user: toPublicUser(user), ...tokens });
+  }));
+
+  app.post("/api/auth/login", authLimiter, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+    const { email, password } = parsed.data;
+
+    const user = await storage.getUserByEmail(email.toLowerCase());
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ message: "Invalid email or password" });
+    }
+
+    const tokens = await generateTokens(user, deviceInfo(req));
+    return res.json({ user: toPublicUser(user), ...tokens });
+  }));
+
+  app.post("/api/auth/refresh", asyncHandler(async (req: Request, res: Response) => {
+    const parsed = refreshTokenSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const rotated = await rotateRefreshToken(parsed.data.refreshToken, deviceInfo(req));
+    if (!rotated) return res.status(401).json({ message: "Invalid or expired refresh token" });
+
+    return res.json(rotated.tokens);
+  }));
+
+  app.post("/api/auth/logout", asyncHandler(async (req: Request, res: Response) => {
+    const parsed = refreshTokenSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    await revokeRefreshToken(parsed.data.refreshToken);
+    return res.status(204).end();
+  }));
+
+  app.post("/api/auth/logout-all", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await revokeAllRefreshTokens(req.user!.userId);
+    return res.status(204).end();
+  }));
+
+  app.get("/api/auth/me", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const user = await storage.getUser(req.user!.userId);
+    if (!user) return res.status(404).json({ message: "User not found" });
+    return res.json(toPublicUser(user));
+  }));
+
   // ✅ Airports (local DB)
   app.get("/api/airports", asyncHandler(async (req, res) => {
     const search = req.query.search as string | undefined;
@@ -121,18 +396,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const schema = z.object({
       from: z.string().length(3),
       to: z.string().length(3),
-      algorithm: z.string().default("dijkstra"),
+      algorithm: z.enum(["dijkstra", "astar", "bellmanford", "floydwarshall"]).default("dijkstra"),
+      alternatives: z.coerce.number().int().min(1).max(5).default(1),
+      date: departureDateQuery,
+      ...routeConstraintsQuery,
     });
-    const { from, to, algorithm } = schema.parse(req.query);
+    const { from, to, algorithm, alternatives: k, date, ...constraints } = schema.parse(req.query);
 
-    const airports = await storage.getAllAirports();
-    const routes = await storage.getActiveRoutes();
+    const graph = await routeGraph.getGraph();
+    const result = await findRoute(graph, from, to, algorithm, constraints, date);
+    if (!result) return res.status(404).json({ message: date ? "No scheduled connection found" : "No route found" });
 
-    const result = await computeRoute(airports, routes, from, to, algorithm);
-    if (!result) return res.status(404).json({ message: "No route found" });
+    // Yen's alternatives are distance-based and do not apply to timetable searches
+    const alternatives = date ? [] : computeAlternativeRoutes(graph, from, to, result, k - 1, constraints);
 
     broadcastToClients({ type: "route:recomputed", data: { from, to, algorithm, ...result } });
-    return res.json(result);
+    return res.json({ ...result, alternatives });
   }));
 
   // ✅ Price quote
@@ -140,22 +419,776 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const schema = z.object({
       from: z.string().length(3),
       to: z.string().length(3),
-      pax: z.coerce.number().int().positive().default(1),
-      algorithm: z.string().default("dijkstra"),
+      // `pax` is the legacy head count and means adults
+      pax: z.coerce.number().int().positive().optional(),
+      adults: z.coerce.number().int().min(0).optional(),
+      children: z.coerce.number().int().min(0).default(0),
+      infants: z.coerce.number().int().min(0).default(0),
+      algorithm: z.enum(["dijkstra", "astar", "bellmanford", "floydwarshall"]).default("dijkstra"),
+      alternatives: z.coerce.number().int().min(1).max(5).default(1),
+      date: departureDateQuery,
+      optimize: z.enum(["distance", "price", "stops", "duration", "balanced"]).optional(),
+      promoCode: z.string().optional(),
+      currency: z.string().regex(/^[A-Za-z]{3}$/).transform(code => code.toUpperCase()).default(BASE_CURRENCY),
+      ...routeConstraintsQuery,
     });
-    const { from, to, pax, algorithm } = schema.parse(req.query);
-
-    const airports = await storage.getAllAirports();
-    const routes = await storage.getActiveRoutes();
+    const {
+      from, to, pax: headCount, adults, children, infants, algorithm, alternatives: k, date, optimize, promoCode,
+      currency, ...constraints
+    } = schema.parse(req.query);
+    if (date && optimize) {
+      return res.status(400).json({ message: "optimize cannot be combined with a departure date" });
+    }
+    const paxMix = paxMixSchema.safeParse({ adults: adults ?? headCount ?? 1, children, infants });
+    if (!paxMix.success) return res.status(400).json({ message: fromZodError(paxMix.error).message });
+    const pax = paxMix.data;
+    const conversion = await getConversion(currency);
+    if (!conversion) return res.status(400).json({ message: `Unsupported currency: ${currency}` });
 
-    const routeResult = await computeRoute(airports, routes, from, to, algorithm);
-    if (!routeResult) return res.status(404).json({ message: "No route found for pricing" });
+    // Promotions are checked against the journey; alternatives share its
+    // origin and destination
+    const promoCodes = parsePromoCodes(promoCode);
+    const promotionLookup = await resolvePromotions(promoCodes, { origin: from, destination: to });
+    if (!promotionLookup.ok) {
+      const { status, message } = promotionFailureResponses[promotionLookup.reason];
+      return res.status(status).json({ message, reason: promotionLookup.reason, code: promotionLookup.code });
+    }
+    const discounts = promotionLookup.promotions;
+    const quotedPromoCode = promoCodes.length > 0 ? promoCodes.join(",") : null;
 
     const priceConfig = await storage.getPriceConfig();
     if (!priceConfig) return res.status(500).json({ message: "Price configuration not found" });
+    const pricing = await loadPricingContext();
+
+    const graph = await routeGraph.getGraph();
+    let routeResult: RouteResult | null;
+    let alternativeRoutes: RouteResult[];
+    let source: string;
+
+    if (optimize) {
+      // The best route under the chosen preference; the rest of the Pareto
+      // set serves as alternatives
+      const ranked = rankParetoRoutes(
+        computeParetoRoutes(graph, from, to, fareEstimator(priceConfig, pricing, from), constraints),
+        optimize
+      );
+      routeResult = ranked[0] ?? null;
+      alternativeRoutes = ranked.slice(1, k);
+      source = "pareto";
+    } else {
+      routeResult = await findRoute(graph, from, to, algorithm, constraints, date);
+      // Alternatives come from Yen's algorithm, which does not apply to
+      // timetable searches
+      alternativeRoutes = routeResult && !date
+        ? computeAlternativeRoutes(graph, from, to, routeResult, k - 1, constraints)
+        : [];
+      source = date ? "schedule" : algorithm;
+    }
+    if (!routeResult) return res.status(404).json({ message: "No route found for pricing" });
+
+    // Dated itineraries are priced with the config in force at departure,
+    // including scheduled changes that are not active yet. Alternatives are
+    // priced the same way, each for its own departure.
+    const priceRoute = async (route: RouteResult) => {
+      const config = await priceScheduler.configFor(routeDeparture(route));
+      const demand = await demandService.demandFactor(route.segments, config.demandCurve, date);
+      const offers = convertOffers(generatePriceQuote(route.segments, pax, config, pricing, demand, discounts), conversion);
+      return { config, offers };
+    };
+
+    const { config: travelConfig, offers } = await priceRoute(routeResult);
+    const expiresAt = await saveQuotedOffers(routeResult, source, pax, offers, travelConfig, quotedPromoCode);
+
+    const alternativeSource = optimize ? "pareto" : "yen";
+    const alternatives = await Promise.all(
+      alternativeRoutes.map(async (route) => {
+        const { config, offers: routeOffers } = await priceRoute(route);
+        await saveQuotedOffers(route, alternativeSource, pax, routeOffers, config, quotedPromoCode);
+        return { route, offers: routeOffers };
+      })
+    );
+
+    return res.json({ route: routeResult, offers, config: travelConfig, expiresAt, alternatives });
+  }));
+
+  // ✅ Offer rehydration
+  app.get("/api/offers/:offerId", asyncHandler(async (req: Request, res: Response) => {
+    const lookup = await getQuotedOffer(req.params.offerId);
+    if (!lookup.ok) {
+      const { status, message } = offerUnavailableResponses[lookup.reason];
+      return res.status(status).json({ message, reason: lookup.reason });
+    }
+    return res.json(toQuotedItinerary(lookup.offer));
+  }));
+
+  // ✅ Bookings
+  app.get("/api/bookings", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const bookings = await storage.getUserBookings(req.user!.userId);
+    return res.json(bookings);
+  }));
+
+  app.get("/api/bookings/:pnr", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const booking = await storage.getBookingByPnr(req.params.pnr.toUpperCase());
+    if (!booking || (booking.userId !== req.user!.userId && req.user!.role !== "admin")) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    const [passengers, seats, itineraries, payments] = await Promise.all([
+      storage.getBookingPassengers(booking.id),
+      storage.getBookingSeatAssignments(booking.id),
+      storage.getBookingItineraries(booking.id),
+      storage.getBookingPayments(booking.id),
+    ]);
+    return res.json({ ...booking, passengers, seats, itineraries, payments });
+  }));
+
+  // Replaces the traveller's seat on that flight; everyone viewing the seat
+  // map is told which seat was taken and which was freed. A seat with a fee
+  // is charged as its own payment and assigned once that is captured.
+  app.put("/api/bookings/:pnr/seats", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = assignSeatSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const booking = await storage.getBookingByPnr(req.params.pnr.toUpperCase());
+    if (!booking || booking.userId !== req.user!.userId) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const selected = await selectSeat(booking, parsed.data);
+    if (!selected.ok) {
+      const { status, message } = seatAssignmentFailureResponses[selected.reason];
+      return res.status(status).json({ message, reason: selected.reason });
+    }
+
+    const { selection } = selected;
+    if (selection.fee > 0) {
+      if (!parsed.data.paymentMethod) {
+        const { status, message } = seatAssignmentFailureResponses.payment_required;
+        return res.status(status).json({
+          message,
+          reason: "payment_required",
+          fee: selection.fee,
+          currency: booking.currency,
+        });
+      }
+      // Nobody else can take the seat while it is being paid for
+      const held = await holdSeat(booking, selection);
+      if (!held.ok) {
+        const { status, message } = seatAssignmentFailureResponses[held.reason];
+        return res.status(status).json({ message, reason: held.reason });
+      }
+      broadcastSeatAssigned(held.assignment);
+
+      // From here the charge's handler assigns the seat once the fee is
+      // captured, or releases it when the payment fails
+      let result: PaymentResult;
+      try {
+        result = await paymentService.charge(
+          booking,
+          { amount: selection.fee, amountInr: selection.feeInr, details: { ...selection, assignmentId: held.assignment.id } },
+          parsed.data.paymentMethod
+        );
+      } catch (error) {
+        const released = await storage.releaseSeatAssignment(held.assignment.id);
+        if (released) broadcastReleasedSeats([released]);
+        throw error;
+      }
+      if (!result.ok) {
+        const { status, message } = paymentFailureResponses[result.reason];
+        return res.status(status).json({ message, reason: result.reason, payment: result.payment ?? null });
+      }
+      return res.status(result.payment.status === "captured" ? 200 : 202).json(result);
+    }
+
+    const result = await assignSeat(booking, selection);
+    if (!result.ok) {
+      const { status, message } = seatAssignmentFailureResponses[result.reason];
+      return res.status(status).json({ message, reason: result.reason });
+    }
+
+    broadcastSeatAssigned(result.assignment, result.replaced);
+    return res.json(result.assignment);
+  }));
+
+  // What cancelling now would refund, shown before the traveller confirms
+  app.get("/api/bookings/:pnr/cancel", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const booking = await storage.getBookingByPnr(req.params.pnr.toUpperCase());
+    if (!booking || booking.userId !== req.user!.userId) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const blocker = cancellationBlocker(booking);
+    if (blocker) {
+      const { status, message } = cancellationFailureResponses[blocker];
+      return res.status(status).json({ message, reason: blocker });
+    }
+    return res.json(quoteCancellation(booking));
+  }));
+
+  // Refunds per the booked fare rules; seats go back on sale and their
+  // seat maps are updated live
+  app.post("/api/bookings/:pnr/cancel", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const booking = await storage.getBookingByPnr(req.params.pnr.toUpperCase());
+    if (!booking || booking.userId !== req.user!.userId) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const result = await cancelBooking(booking);
+    if (!result.ok) {
+      const { status, message } = cancellationFailureResponses[result.reason];
+      return res.status(status).json({ message, reason: result.reason });
+    }
+
+    const refunded = Number(result.refunds.reduce((sum, refund) => sum + refund.amount, 0).toFixed(2));
+    broadcastReleasedSeats(result.releasedSeats);
+    sendToBookingOwner(result.booking.userId, {
+      type: "booking:cancelled",
+      data: {
+        pnr: result.booking.pnr,
+        path: result.booking.path,
+        status: result.booking.status,
+        refund: refunded,
+        currency: result.booking.currency,
+      },
+    });
+    return res.json({ booking: result.booking, refunds: result.refunds, refunded });
+  }));
+
+  // Moves the booking to a new offer for the same travellers, keeping the
+  // PNR. The new fare is repriced like a new booking, without promotions;
+  // the fare difference and change fee are charged against what was booked.
+  // A change with a charge is paid with its own payment and applies once
+  // that is captured; until then the new seats stay held, and they are
+  // released if the payment fails.
+  app.post("/api/bookings/:pnr/change", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = changeBookingSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const booking = await storage.getBookingByPnr(req.params.pnr.toUpperCase());
+    if (!booking || booking.userId !== req.user!.userId) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    const blocker = changeBlocker(booking);
+    if (blocker) {
+      const { status, message } = changeFailureResponses[blocker];
+      return res.status(status).json({ message, reason: blocker });
+    }
+
+    const lookup = await takeQuotedOffer(parsed.data.offerId);
+    if (!lookup.ok) {
+      const { status, message } = offerUnavailableResponses[lookup.reason];
+      return res.status(status).json({ message, reason: lookup.reason });
+    }
+    const quote = toQuotedItinerary(lookup.offer);
+    if (!travellersMatchPaxMix(await storage.getBookingPassengers(booking.id), quote.paxMix)) {
+      await releaseQuotedOffer(quote.offerId);
+      const { status, message } = changeFailureResponses.travellers;
+      return res.status(status).json({ message, reason: "travellers" });
+    }
+
+    // The new seats are held before the old ones are given back, so a full
+    // flight leaves the booking as it was
+    const seatHold = await holdSeats(quote, req.user!.userId);
+    if (!seatHold.ok) {
+      await releaseQuotedOffer(quote.offerId);
+      const { status, message } = seatHoldFailureResponses[seatHold.reason];
+      return res.status(status).json({ message, reason: seatHold.reason });
+    }
+    const releaseAll = () => Promise.all([releaseQuotedOffer(quote.offerId), releaseSeats(seatHold.hold)]);
+
+    let change: BookingChange | undefined;
+    let chargeRequest: ChargeRequest | undefined;
+    try {
+      const priceConfig = await priceScheduler.configFor(quote.departsAt);
+      const pricing = await loadPricingContext();
+      const { fareBreakdown, totalFare } = repriceOffer({
+        class: quote.class,
+        legs: quote.route.segments,
+        pax: quote.paxMix,
+        demand: quote.fareBreakdown.demand,
+      }, priceConfig, pricing);
+
+      const charge = { ...priceChange(booking, totalFare, quote.paxMix), changedBy: req.user!.userId };
+      const itinerary = {
+        path: quote.route.path,
+        segments: quote.route.segments,
+        fareBreakdown,
+        total: Number((booking.total + charge.charged).toFixed(2)),
+        totalInr: (booking.totalInr ?? booking.total) + charge.chargedInr,
+        fareClass: quote.class,
+        configVersion: priceConfig.version,
+        priceChangeIds: priceConfig.priceChangeIds,
+        fareRules: priceConfig.fareRules[quote.class],
+        departsAt: quote.departsAt,
+        seatHoldId: seatHold.hold?.id ?? null,
+      };
+
+      if (charge.charged > 0) {
+        chargeRequest = {
+          amount: charge.charged,
+          amountInr: charge.chargedInr,
+          details: changePaymentDetails(booking, quote.offerId, itinerary, charge),
+        };
+      } else {
+        const confirmed = await confirmSeats(seatHold.hold);
+        if (!confirmed.ok) {
+          await releaseAll();
+          const { status, message } = seatHoldFailureResponses[confirmed.reason];
+          return res.status(status).json({ message, reason: confirmed.reason });
+        }
+        change = await storage.changeBooking(booking, itinerary, charge);
+      }
+    } catch (error) {
+      await releaseAll();
+      throw error;
+    }
+
+    if (chargeRequest) {
+      if (!parsed.data.paymentMethod) {
+        await releaseAll();
+        const { status, message } = changeFailureResponses.payment_required;
+        return res.status(status).json({
+          message,
+          reason: "payment_required",
+          charged: chargeRequest.amount,
+          currency: booking.currency,
+        });
+      }
+      // From here the charge's handler applies the change once the payment
+      // is captured, or gives back the seats and offer when it fails
+      const result = await paymentService.charge(booking, chargeRequest, parsed.data.paymentMethod);
+      if (!result.ok) {
+        const { status, message } = paymentFailureResponses[result.reason];
+        return res.status(status).json({ message, reason: result.reason, payment: result.payment ?? null });
+      }
+      return res.status(result.payment.status === "captured" ? 200 : 202).json(result);
+    }
+    if (!change) {
+      await releaseAll();
+      const { status, message } = changeFailureResponses.not_changeable;
+      return res.status(status).json({ message, reason: "not_changeable" });
+    }
+
+    broadcastBookingChange(change);
+    return res.json({ booking: change.booking, previous: change.previous });
+  }));
+
+  // Only the offerId is accepted from the client; path, fare and total are
+  // recomputed from the server's own record of the quote. A fare that no
+  // longer matches the quote is refused as price_changed, never charged.
+  app.post("/api/bookings", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = createBookingSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const lookup = await takeQuotedOffer(parsed.data.offerId);
+    if (!lookup.ok) {
+      const { status, message } = offerUnavailableResponses[lookup.reason];
+      return res.status(status).json({ message, reason: lookup.reason });
+    }
+    const quote = toQuotedItinerary(lookup.offer);
+    if (!travellersMatchPaxMix(parsed.data.passengers, quote.paxMix)) {
+      await releaseQuotedOffer(quote.offerId);
+      return res.status(400).json({ message: "Passengers do not match the travellers the offer was quoted for" });
+    }
+
+    // Priced again at today's config and rate; the quote only stands if
+    // both still give the same fare
+    const conversion = await getConversion(quote.currency);
+    if (!conversion) {
+      await releaseQuotedOffer(quote.offerId);
+      return res.status(409).json({ message: `${quote.currency} is no longer offered, please search again` });
+    }
+
+    // Promotions are re-validated for the chosen class and redeemed before
+    // the booking is written; both are handed back if it fails
+    const promotionLookup = await resolvePromotions(
+      parsePromoCodes(parsed.data.promoCode ?? quote.promoCode),
+      { origin: quote.route.path[0], destination: quote.route.path[quote.route.path.length - 1], fareClass: quote.class }
+    );
+    const redemption = promotionLookup.ok ? await claimPromotions(promotionLookup.promotions) : promotionLookup;
+    if (!redemption.ok) {
+      await releaseQuotedOffer(quote.offerId);
+      const { status, message } = promotionFailureResponses[redemption.reason];
+      return res.status(status).json({ message, reason: redemption.reason, code: redemption.code });
+    }
+    const promotions = redemption.promotions;
+
+    // Seats are held before pricing and sold once the booking is paid; the
+    // hold lapses with the time to pay
+    const seatHold = await holdSeats(quote, req.user!.userId);
+    if (!seatHold.ok) {
+      await Promise.all([releaseQuotedOffer(quote.offerId), releasePromotions(promotions)]);
+      const { status, message } = seatHoldFailureResponses[seatHold.reason];
+      return res.status(status).json({ message, reason: seatHold.reason });
+    }
+    const releaseAll = () => Promise.all([
+      releaseQuotedOffer(quote.offerId),
+      releasePromotions(promotions),
+      releaseSeats(seatHold.hold),
+    ]);
+
+    let booking: Booking | undefined;
+    try {
+      const priceConfig = await priceScheduler.configFor(quote.departsAt);
+      const pricing = await loadPricingContext();
+      const { fareBreakdown, totalFare } = repriceOffer({
+        class: quote.class,
+        legs: quote.route.segments,
+        pax: quote.paxMix,
+        demand: quote.fareBreakdown.demand,
+        discounts: promotions,
+      }, priceConfig, pricing);
+      if (
+        fareBeforeDiscounts(fareBreakdown) !== fareBeforeDiscounts(quote.fareBreakdown) ||
+        conversion.inrPerUnit !== quote.exchangeRate
+      ) {
+        await releaseAll();
+        return res.status(409).json({
+          message: "The fare has changed since it was quoted, please review the new price",
+          reason: "price_changed",
+          quotedTotal: quote.totalFare,
+          total: convertFromInr(totalFare, conversion),
+          currency: conversion.currency,
+        });
+      }
+
+      // Retry on the rare PNR collision (unique violation)
+      for (let attempt = 0; !booking; attempt++) {
+        try {
+          booking = await storage.createBooking({
+            userId: req.user!.userId,
+            pnr: generatePnr(),
+            path: quote.route.path,
+            fareBreakdown,
+            total: convertFromInr(totalFare, conversion),
+            currency: conversion.currency,
+            totalInr: totalFare,
+            exchangeRate: conversion.inrPerUnit,
+            fareClass: quote.class,
+            configVersion: priceConfig.version,
+            priceChangeIds: priceConfig.priceChangeIds,
+            fareRules: priceConfig.fareRules[quote.class],
+            departsAt: quote.departsAt,
+            seatHoldId: seatHold.hold?.id ?? null,
+            segments: quote.route.segments,
+            status: "pending",
+            paymentDueAt: seatHold.hold?.expiresAt ?? new Date(Date.now() + HOLD_TTL_MS),
+          }, parsed.data.passengers);
+        } catch (error: any) {
+          if (error.code !== "23505" || attempt >= 4) throw error;
+        }
+      }
+    } catch (error) {
+      await releaseAll();
+      throw error;
+    }
+    await recordRedemptions(promotions, booking, booking.fareBreakdown.lines ?? []);
+
+    sendToBookingOwner(booking.userId, {
+      type: "booking:created",
+      data: {
+        pnr: booking.pnr,
+        path: booking.path,
+        total: booking.total,
+        currency: booking.currency,
+        fareClass: booking.fareClass,
+      },
+    });
+    return res.status(201).json(booking);
+  }));
+
+  // Pays for a pending booking. Authorised payments are captured and the
+  // booking ticketed before responding; a 3-D Secure challenge or a delayed
+  // authorisation answers 202 and completes by webhook.
+  app.post("/api/bookings/:pnr/pay", authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = payBookingSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const booking = await storage.getBookingByPnr(req.params.pnr.toUpperCase());
+    if (!booking || booking.userId !== req.user!.userId) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const result = await paymentService.pay(booking, parsed.data.paymentMethod);
+    if (!result.ok) {
+      const { status, message } = paymentFailureResponses[result.reason];
+      return res.status(status).json({
+        message,
+        reason: result.reason,
+        failureReason: result.payment?.failureReason ?? null,
+        payment: result.payment ?? null,
+      });
+    }
+    return res.status(result.payment.status === "captured" ? 200 : 202).json(result);
+  }));
+
+  // ✅ Payment provider webhooks (signature checked by the provider)
+  app.post("/api/payments/webhooks/:provider", asyncHandler(async (req: Request, res: Response) => {
+    const rawBody = (req as Request & { rawBody?: Buffer }).rawBody?.toString("utf8") ?? "";
+    const signature = req.get("x-webhook-signature");
+    if (!(await paymentService.handleWebhook(req.params.provider, rawBody, signature))) {
+      return res.status(400).json({ message: "Invalid webhook" });
+    }
+    return res.json({ received: true });
+  }));
+
+  // ✅ Mock provider's 3-D Secure challenge, standing in for the issuer's
+  // page; like that page it is reached by the intent's unguessable ref alone
+  app.post("/api/payments/mock/challenge/:ref", asyncHandler(async (req: Request, res: Response) => {
+    const parsed = z.object({ approve: z.boolean() }).safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const intent = mockPaymentProvider.completeChallenge(req.params.ref, parsed.data.approve);
+    if (!intent) return res.status(404).json({ message: "No challenge pending for this payment" });
+    return res.status(202).json(intent);
+  }));
+
+  // ✅ Seat maps, with live occupancy for one departure
+  app.get("/api/flights/:id/seatmap", asyncHandler(async (req: Request, res: Response) => {
+    const { date } = z.object({ date: departureDateQuery.unwrap() }).parse(req.query);
+
+    const flight = await storage.getFlight(req.params.id);
+    if (!flight || !operatesOn(flight, date)) {
+      return res.status(404).json({ message: "Flight does not operate on that date" });
+    }
+    return res.json(await getSeatMap(flight, date));
+  }));
+
+  // ✅ Exchange rates (INR is the base currency and has no row)
+  app.get("/api/exchange-rates", asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getExchangeRates());
+  }));
+
+  // ✅ Aircraft types
+  app.get("/api/aircraft-types", asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getAircraftTypes());
+  }));
+
+  // ✅ Admin: aircraft type catalog
+  app.post("/api/admin/aircraft-types", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertAircraftTypeSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    try {
+      return res.status(201).json(await storage.createAircraftType(parsed.data));
+    } catch (error: any) {
+      if (error.code === "23505") return res.status(409).json({ message: "Aircraft type code already exists" });
+      throw error;
+    }
+  }));
+
+  // The code is what route edges and flights reference, so it cannot change
+  app.patch("/api/admin/aircraft-types/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertAircraftTypeSchema.omit({ code: true }).partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const aircraftType = await storage.updateAircraftType(req.params.id, parsed.data);
+    if (!aircraftType) return res.status(404).json({ message: "Aircraft type not found" });
+    return res.json(aircraftType);
+  }));
+
+  app.delete("/api/admin/aircraft-types/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const aircraftType = (await storage.getAircraftTypes()).find(t => t.id === req.params.id);
+    if (!aircraftType) return res.status(404).json({ message: "Aircraft type not found" });
+    if (await storage.isAircraftTypeAssigned(aircraftType.code)) {
+      return res.status(409).json({ message: "Aircraft type is still assigned to routes or flights" });
+    }
+
+    await storage.deleteAircraftType(aircraftType.id);
+    return res.status(204).end();
+  }));
+
+  // ✅ Admin: price configuration (every change is a new immutable version)
+  app.get("/api/admin/pricing", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getPriceConfig());
+  }));
+
+  app.put("/api/admin/pricing", authenticate, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = updatePriceConfigSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const config = await storage.updatePriceConfig(parsed.data, { authorId: req.user!.userId });
+    broadcastToClients({ type: "price:update", data: config });
+    return res.json(config);
+  }));
+
+  app.get("/api/admin/pricing/versions", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getPriceConfigVersions());
+  }));
+
+  app.get("/api/admin/pricing/versions/diff", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const schema = z.object({
+      from: z.coerce.number().int().positive(),
+      to: z.coerce.number().int().positive(),
+    });
+    const { from, to } = schema.parse(req.query);
+
+    const [fromVersion, toVersion] = await Promise.all([
+      storage.getPriceConfigVersion(from),
+      storage.getPriceConfigVersion(to),
+    ]);
+    if (!fromVersion || !toVersion) return res.status(404).json({ message: "Price config version not found" });
+
+    return res.json({ from, to, changes: diffPriceConfigVersions(fromVersion, toVersion) });
+  }));
 
-    const offers = generatePriceQuote(routeResult.path, routeResult.totalDistance, pax, priceConfig);
-    return res.json({ route: routeResult, offers, config: priceConfig });
+  app.post("/api/admin/pricing/versions/:version/rollback", authenticate, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 1) return res.status(400).json({ message: "Invalid version" });
+
+    const result = await rollbackPriceConfig(version, req.user!.userId);
+    if (!result.ok) {
+      const { status, message } = rollbackFailureResponses[result.reason];
+      return res.status(status).json({ message, reason: result.reason });
+    }
+
+    broadcastToClients({ type: "price:update", data: result.config });
+    return res.json(result.config);
+  }));
+
+  // ✅ Admin: scheduled price changes
+  app.get("/api/admin/pricing/scheduled", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getScheduledPriceChanges());
+  }));
+
+  app.post("/api/admin/pricing/scheduled", authenticate, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = schedulePriceChangeSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+    if (parsed.data.effectiveAt.getTime() <= Date.now()) {
+      return res.status(400).json({ message: "effectiveAt must be in the future" });
+    }
+
+    const change = await storage.createScheduledPriceChange({ ...parsed.data, authorId: req.user!.userId });
+    await priceScheduler.reschedule();
+    return res.status(201).json(change);
+  }));
+
+  app.delete("/api/admin/pricing/scheduled/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const change = await storage.cancelScheduledPriceChange(req.params.id);
+    if (!change) return res.status(404).json({ message: "No pending scheduled change with that id" });
+
+    await priceScheduler.reschedule();
+    return res.status(204).end();
+  }));
+
+  // ✅ Admin: promotions
+  app.get("/api/admin/promotions", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getPromotions());
+  }));
+
+  app.post("/api/admin/promotions", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertPromotionSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    try {
+      return res.status(201).json(await storage.createPromotion(parsed.data));
+    } catch (error: any) {
+      if (error.code === "23505") return res.status(409).json({ message: "Promo code already exists" });
+      throw error;
+    }
+  }));
+
+  app.patch("/api/admin/promotions/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = updatePromotionSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const promotion = await storage.updatePromotion(req.params.id, parsed.data);
+    if (!promotion) return res.status(404).json({ message: "Promotion not found" });
+    return res.json(promotion);
+  }));
+
+  // ✅ Admin: exchange rates
+  app.put("/api/admin/exchange-rates/:currency", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertExchangeRateSchema.safeParse({ ...req.body, currency: req.params.currency });
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+    if (parsed.data.currency === BASE_CURRENCY) {
+      return res.status(400).json({ message: `${BASE_CURRENCY} is the base currency` });
+    }
+
+    const [rate] = await storage.upsertExchangeRates([parsed.data]);
+    return res.json(rate);
+  }));
+
+  app.delete("/api/admin/exchange-rates/:currency", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const rate = await storage.deleteExchangeRate(req.params.currency.toUpperCase());
+    if (!rate) return res.status(404).json({ message: "Exchange rate not found" });
+    return res.status(204).end();
+  }));
+
+  // Rates file as CSV text; all rows are applied or none
+  app.post("/api/admin/exchange-rates/import", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = z.object({ csv: z.string().min(1) }).safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    const imported = parseExchangeRateCsv(parsed.data.csv);
+    if (!imported.ok) return res.status(400).json({ message: `Line ${imported.line}: ${imported.message}` });
+
+    return res.json(await storage.upsertExchangeRates(imported.rates));
+  }));
+
+  // ✅ Admin: airport charges and tax rules
+  app.get("/api/admin/airport-charges", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getAirportCharges());
+  }));
+
+  app.post("/api/admin/airport-charges", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertAirportChargeSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+    if (!(await storage.getAirportByCode(parsed.data.airportCode))) {
+      return res.status(400).json({ message: "Unknown airport" });
+    }
+    return res.status(201).json(await storage.createAirportCharge(parsed.data));
+  }));
+
+  app.delete("/api/admin/airport-charges/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const charge = await storage.deleteAirportCharge(req.params.id);
+    if (!charge) return res.status(404).json({ message: "Airport charge not found" });
+    return res.status(204).end();
+  }));
+
+  app.get("/api/admin/tax-rules", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getTaxRules());
+  }));
+
+  app.post("/api/admin/tax-rules", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertTaxRuleSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+    return res.status(201).json(await storage.createTaxRule(parsed.data));
+  }));
+
+  app.delete("/api/admin/tax-rules/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const rule = await storage.deleteTaxRule(req.params.id);
+    if (!rule) return res.status(404).json({ message: "Tax rule not found" });
+    return res.status(204).end();
+  }));
+
+  // ✅ Admin: route network
+  app.patch("/api/admin/routes/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertRouteEdgeSchema
+      .pick({ active: true, distanceKm: true, bidirectional: true, aircraftType: true, baseFareOverride: true })
+      .partial()
+      .safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+    if (parsed.data.aircraftType && !(await isKnownAircraftType(parsed.data.aircraftType))) {
+      return res.status(400).json({ message: "Unknown aircraft type" });
+    }
+
+    // Writing through storage patches the cached route graph
+    const route = await storage.updateRoute(req.params.id, parsed.data);
+    if (!route) return res.status(404).json({ message: "Route not found" });
+    return res.json(route);
+  }));
+
+  app.patch("/api/admin/flights/:id", authenticate, requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+    const parsed = insertFlightSchema.pick({ active: true, aircraftType: true }).partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: fromZodError(parsed.error).message });
+    if (parsed.data.aircraftType && !(await isKnownAircraftType(parsed.data.aircraftType))) {
+      return res.status(400).json({ message: "Unknown aircraft type" });
+    }
+
+    const flight = await storage.updateFlight(req.params.id, parsed.data);
+    if (!flight) return res.status(404).json({ message: "Flight not found" });
+    return res.json(flight);
   }));
 
   // -----------------------------
@@ -164,8 +1197,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
 
+  priceScheduler.onActivated((config) => broadcastToClients({ type: "price:update", data: config }));
+  await priceScheduler.start();
+
+  paymentService.onBookingUpdated((booking) => sendToBookingOwner(booking.userId, {
+    type: "booking:updated",
+    data: { pnr: booking.pnr, status: booking.status },
+  }));
+  paymentService.handleCharges("change", {
+    apply: async (payment, booking) => {
+      const change = await applyChangePayment(payment, booking);
+      if (change) broadcastBookingChange(change);
+      return !!change;
+    },
+    release: releaseChangePayment,
+  });
+  paymentService.handleCharges("seat", {
+    apply: async (payment, booking) => {
+      const result = await applySeatPayment(payment, booking);
+      if (result.ok) broadcastSeatAssigned(result.assignment, result.replaced);
+      return result.ok;
+    },
+    release: async (payment) => {
+      const released = await releaseSeatPayment(payment);
+      if (released) broadcastReleasedSeats([released]);
+    },
+  });
+  await paymentService.start();
+
   wss.on("connection", (ws) => {
-    wsClients.add(ws);
+    wsClients.set(ws, null);
+    // { type: "auth", token } identifies the socket; a missing or invalid
+    // token makes it anonymous again
+    ws.on("message", (raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (message?.type === "auth" && wsClients.has(ws)) {
+        wsClients.set(ws, typeof message.token === "string" ? verifyAccessToken(message.token) : null);
+      }
+    });
     ws.on("close", () => wsClients.delete(ws));
     ws.on("error", (err) => {
       console.error("WebSocket error:", err);
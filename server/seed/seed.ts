@@ -64,6 +64,78 @@ for (const airport of airports) {
   }
 }
 
+console.log('Step 8a: Seeding taxes, airport charges and exchange rates');
+const taxRules = [
+  { country: "India", code: "GST", name: "Goods and Services Tax", rate: 0.05 }
+];
+const airportCharges = [
+  { airportCode: "DEL", code: "UDF", name: "User Development Fee", amount: 62 },
+  { airportCode: "DEL", code: "PSF", name: "Passenger Service Fee", amount: 77 },
+  { airportCode: "BOM", code: "UDF", name: "User Development Fee", amount: 187 },
+  { airportCode: "BOM", code: "PSF", name: "Passenger Service Fee", amount: 77 },
+  { airportCode: "BLR", code: "UDF", name: "User Development Fee", amount: 184 },
+  { airportCode: "HYD", code: "UDF", name: "User Development Fee", amount: 424 }
+];
+const exchangeRates = [
+  { currency: "USD", inrPerUnit: 83.2, roundingIncrement: 1 },
+  { currency: "EUR", inrPerUnit: 90.5, roundingIncrement: 1 },
+  { currency: "AED", inrPerUnit: 22.65, roundingIncrement: 5 }
+];
+
+// Taxes and charges have no natural unique key, so only seed them when
+// empty; rates are left alone once an admin maintains them
+const [existingTaxRules, existingCharges, existingRates] = await Promise.all([
+  storage.getTaxRules(),
+  storage.getAirportCharges(),
+  storage.getExchangeRates()
+]);
+await Promise.all([
+  ...(existingTaxRules.length === 0 ? taxRules.map(rule => storage.createTaxRule(rule)) : []),
+  ...(existingCharges.length === 0 ? airportCharges.map(charge => storage.createAirportCharge(charge)) : []),
+  ...(existingRates.length === 0 ? [storage.upsertExchangeRates(exchangeRates)] : [])
+]);
+
+console.log('Step 8b: Seeding aircraft types');
+const aircraftTypes = [
+  {
+    code: "AT76", name: "ATR 72-600", seatCapacity: 70, cruiseSpeedKmh: 510,
+    burnBands: [{ maxDistanceKm: 400, burnLPerKm: 1.1 }, { maxDistanceKm: null, burnLPerKm: 1.0 }],
+    seatLayout: {
+      cabins: [{ name: "Economy", firstRow: 1, lastRow: 18, columns: "AC DF" }],
+      exitRows: [1], blockedSeats: ["18D", "18F"], seatFee: 200, extraLegroomFee: 600
+    }
+  },
+  {
+    code: "A320", name: "Airbus A320neo", seatCapacity: 180, cruiseSpeedKmh: 830,
+    burnBands: [{ maxDistanceKm: 800, burnLPerKm: 1.75 }, { maxDistanceKm: 2000, burnLPerKm: 1.6 }, { maxDistanceKm: null, burnLPerKm: 1.5 }],
+    seatLayout: {
+      cabins: [{ name: "Economy", firstRow: 1, lastRow: 30, columns: "ABC DEF" }],
+      exitRows: [12, 13], blockedSeats: [], seatFee: 250, extraLegroomFee: 800
+    }
+  },
+  {
+    code: "A321", name: "Airbus A321neo", seatCapacity: 220, cruiseSpeedKmh: 840,
+    burnBands: [{ maxDistanceKm: 800, burnLPerKm: 1.9 }, { maxDistanceKm: 2000, burnLPerKm: 1.75 }, { maxDistanceKm: null, burnLPerKm: 1.65 }],
+    seatLayout: {
+      cabins: [{ name: "Economy", firstRow: 1, lastRow: 37, columns: "ABC DEF" }],
+      exitRows: [11, 12, 25], blockedSeats: ["37E", "37F"], seatFee: 250, extraLegroomFee: 800
+    }
+  }
+];
+
+for (const aircraftType of aircraftTypes) {
+  try {
+    await storage.createAircraftType(aircraftType);
+    console.log('Created aircraft type:', aircraftType.code);
+  } catch (error: any) {
+    if (error.code === '23505') {
+      console.log('Aircraft type already exists:', aircraftType.code);
+    } else {
+      console.error('Error creating aircraft type:', error);
+    }
+  }
+}
+
 console.log('Step 9: Creating flight routes');
 
 // Create a map of airports for easy lookup
@@ -93,6 +165,15 @@ const routes = [
   ["CCU", "COK"], ["PNQ", "GOI"], ["AMD", "COK"]
 ];
 
+// One daily flight per route edge, spread across the day so connections exist
+const pad = (n: number) => String(n).padStart(2, '0');
+const toClock = (minutes: number) => `${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}`;
+let flightSeq = 0;
+
+// Route edges and flights have no natural unique key either, so an edge
+// already in the table is left alone together with its flights
+const existingEdges = new Set((await storage.getAllRoutes()).map(route => `${route.from}>${route.to}`));
+
 for (const [from, to] of routes) {
   const fromAirport = airportMap.get(from);
   const toAirport = airportMap.get(to);
@@ -103,17 +184,41 @@ for (const [from, to] of routes) {
       toAirport.lat, toAirport.lon
     );
     
-    // Create bidirectional routes
+    // Turboprops on short hops, narrowbodies elsewhere
+    const aircraftType = distance < 600 ? 'AT76' : 'A320';
+
+    // Route edges are directed, so each direction gets its own row
     for (const [source, dest] of [[from, to], [to, from]]) {
+      // Numbered before skipping so flight numbers stay the same across runs
+      flightSeq++;
+      if (existingEdges.has(`${source}>${dest}`)) {
+        console.log(`Route already exists: ${source} → ${dest}`);
+        continue;
+      }
       try {
         console.log(`Creating route: ${source} → ${dest} (${Math.round(distance)} km)`);
-        await storage.createRoute({
+        const route = await storage.createRoute({
           from: source,
           to: dest,
           distanceKm: distance,
-          active: true
+          active: true,
+          aircraftType
         });
         console.log(`Created route: ${source} → ${dest}`);
+
+        // Block time: ~800 km/h cruise plus 30 min taxi, rounded to 5 min
+        const departure = 6 * 60 + (flightSeq * 55) % (16 * 60);
+        const blockMinutes = Math.round((distance / 800 * 60 + 30) / 5) * 5;
+        const arrival = departure + blockMinutes;
+        await storage.createFlight({
+          flightNumber: `SA${100 + flightSeq}`,
+          routeEdgeId: route.id,
+          daysOfOperation: [1, 2, 3, 4, 5, 6, 7],
+          departureTime: toClock(departure),
+          arrivalTime: toClock(arrival),
+          arrivalDayOffset: Math.floor(arrival / (24 * 60)),
+          aircraftType
+        });
       } catch (error: any) {
         if (error.code === '23505') {
           console.log(`Route already exists: ${source} → ${dest}`);
@@ -1,9 +1,11 @@
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
+import { createHash, randomBytes, randomUUID } from "crypto";
 import { User } from "@shared/schema";
+import { storage } from "../storage";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || "your-refresh-secret";
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 export interface TokenPair {
   accessToken: string;
@@ -16,6 +18,13 @@ export interface JWTPayload {
   role: string;
 }
 
+export interface DeviceInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export type PublicUser = Omit<User, "passwordHash">;
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12);
 }
@@ -24,31 +33,102 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return bcrypt.compare(password, hash);
 }
 
-export function generateTokens(user: User): TokenPair {
+function generateAccessToken(user: User): string {
   const payload: JWTPayload = {
     userId: user.id,
     email: user.email,
     role: user.role,
   };
 
-  const accessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: "15m" });
-  const refreshToken = jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn: "7d" });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: "15m" });
+}
 
-  return { accessToken, refreshToken };
+// Refresh tokens are opaque random strings; only their SHA-256 is stored
+function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
 }
 
-export function verifyAccessToken(token: string): JWTPayload | null {
-  try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
-  } catch {
+async function persistRefreshToken(
+  user: User,
+  familyId: string,
+  device: DeviceInfo,
+  id: string = randomUUID()
+): Promise<string> {
+  const refreshToken = randomBytes(48).toString("base64url");
+
+  await storage.createRefreshToken({
+    id,
+    userId: user.id,
+    familyId,
+    tokenHash: hashRefreshToken(refreshToken),
+    userAgent: device.userAgent ?? null,
+    ip: device.ip ?? null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return refreshToken;
+}
+
+// Starts a new token family, i.e. a new logged-in device
+export async function generateTokens(user: User, device: DeviceInfo = {}): Promise<TokenPair> {
+  const refreshToken = await persistRefreshToken(user, randomUUID(), device);
+  return { accessToken: generateAccessToken(user), refreshToken };
+}
+
+// Exchanges a refresh token for a new pair. Presenting a token that was
+// already rotated or revoked is treated as theft and kills its whole family.
+export async function rotateRefreshToken(
+  token: string,
+  device: DeviceInfo = {}
+): Promise<{ user: User; tokens: TokenPair } | null> {
+  const stored = await storage.getRefreshTokenByHash(hashRefreshToken(token));
+  if (!stored) return null;
+
+  if (stored.revokedAt) {
+    console.warn(`Refresh token reuse detected for user ${stored.userId}, revoking family ${stored.familyId}`);
+    await storage.revokeRefreshTokenFamily(stored.familyId);
     return null;
   }
+
+  if (stored.expiresAt.getTime() <= Date.now()) return null;
+
+  const user = await storage.getUser(stored.userId);
+  if (!user) return null;
+
+  const nextId = randomUUID();
+  const consumed = await storage.consumeRefreshToken(stored.id, nextId);
+  if (!consumed) {
+    // Lost the race against another refresh with the same token
+    await storage.revokeRefreshTokenFamily(stored.familyId);
+    return null;
+  }
+
+  const refreshToken = await persistRefreshToken(user, stored.familyId, device, nextId);
+  return { user, tokens: { accessToken: generateAccessToken(user), refreshToken } };
 }
 
-export function verifyRefreshToken(token: string): JWTPayload | null {
+// Logs out the device that owns the given refresh token
+export async function revokeRefreshToken(token: string): Promise<boolean> {
+  const stored = await storage.getRefreshTokenByHash(hashRefreshToken(token));
+  if (!stored) return false;
+
+  await storage.revokeRefreshTokenFamily(stored.familyId);
+  return true;
+}
+
+export async function revokeAllRefreshTokens(userId: string): Promise<void> {
+  await storage.revokeUserRefreshTokens(userId);
+}
+
+export function verifyAccessToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, JWT_REFRESH_SECRET) as JWTPayload;
+    return jwt.verify(token, JWT_SECRET) as JWTPayload;
   } catch {
     return null;
   }
 }
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
@@ -0,0 +1,121 @@
+import { ACTIVE_BOOKING_STATUSES, Booking, BookingStatus, ChangePaymentDetails, PaxMix, Payment } from "@shared/schema";
+import { storage, type BookingChange, type ItineraryChangeCharge, type ItineraryUpdate } from "../storage";
+import { convertFromInr } from "./currency";
+import { changeFeeFor, fareRuleFor, withinDeadline } from "./fareRules";
+import { releaseQuotedOffer } from "./offers";
+import type { FareClass } from "./pricing";
+
+export type ChangeFailureReason = "not_changeable" | "departed" | "deadline" | "travellers" | "payment_required";
+
+export const changeFailureResponses: Record<ChangeFailureReason, { status: number; message: string }> = {
+  not_changeable: { status: 409, message: "Booking has been cancelled or changed in the meantime" },
+  departed: { status: 409, message: "Booking can no longer be changed after departure" },
+  deadline: { status: 409, message: "The change deadline for this fare has passed" },
+  travellers: { status: 400, message: "The new offer must be for the same travellers as the booking" },
+  payment_required: { status: 402, message: "This change has a charge; a payment method is required" },
+};
+
+// Changes follow the fare rules the booking was sold on, not the new offer's
+export function changeBlocker(booking: Booking, now: Date = new Date()): ChangeFailureReason | null {
+  if (!ACTIVE_BOOKING_STATUSES.includes(booking.status as BookingStatus)) return "not_changeable";
+  if (booking.departsAt && booking.departsAt.getTime() <= now.getTime()) return "departed";
+  const rule = fareRuleFor(booking.fareClass as FareClass, booking.fareRules);
+  if (!withinDeadline(rule, booking.departsAt, now)) return "deadline";
+  return null;
+}
+
+// INR fare of the current itinerary as priced per traveller; bookings made
+// before passenger pricing only kept the total
+function bookedFareInr(booking: Booking): number {
+  const passengers = booking.fareBreakdown.passengers ?? [];
+  if (passengers.length > 0) return passengers.reduce((sum, passenger) => sum + passenger.total, 0);
+  return booking.totalInr ?? booking.total;
+}
+
+// The fare difference is collected when the new itinerary costs more and
+// forfeited when it costs less; the change fee is always due. Charges are
+// converted at the rate the booking was made at, like seat fees.
+export function priceChange(
+  booking: Booking,
+  newFareInr: number,
+  pax: PaxMix
+): Omit<ItineraryChangeCharge, "changedBy"> {
+  const rule = fareRuleFor(booking.fareClass as FareClass, booking.fareRules);
+  const conversion = { currency: booking.currency, inrPerUnit: booking.exchangeRate, roundingIncrement: 0.01 };
+  const fareDifferenceInr = newFareInr - bookedFareInr(booking);
+  const changeFeeInr = changeFeeFor(rule, pax);
+  const chargedInr = Math.max(fareDifferenceInr, 0) + changeFeeInr;
+
+  return {
+    fareDifference: convertFromInr(fareDifferenceInr, conversion),
+    changeFee: convertFromInr(changeFeeInr, conversion),
+    charged: convertFromInr(chargedInr, conversion),
+    chargedInr,
+  };
+}
+
+// A change with a charge waits for its payment, priced against the
+// booking as it is now
+export function changePaymentDetails(
+  booking: Booking,
+  offerId: string,
+  itinerary: ItineraryUpdate,
+  charge: ItineraryChangeCharge
+): ChangePaymentDetails {
+  return {
+    kind: "change",
+    offerId,
+    itineraryVersion: booking.itineraryVersion,
+    itinerary: {
+      path: itinerary.path,
+      segments: itinerary.segments ?? null,
+      fareBreakdown: itinerary.fareBreakdown,
+      total: itinerary.total,
+      totalInr: itinerary.totalInr ?? null,
+      fareClass: itinerary.fareClass,
+      configVersion: itinerary.configVersion ?? null,
+      priceChangeIds: itinerary.priceChangeIds ?? null,
+      fareRules: itinerary.fareRules ?? null,
+      departsAt: itinerary.departsAt?.toISOString() ?? null,
+      seatHoldId: itinerary.seatHoldId ?? null,
+    },
+    fareDifference: charge.fareDifference,
+    changeFee: charge.changeFee,
+    chargedInr: charge.chargedInr,
+    changedBy: charge.changedBy ?? null,
+  };
+}
+
+function changeDetails(payment: Payment): ChangePaymentDetails {
+  if (payment.details?.kind !== "change") throw new Error(`Payment ${payment.id} is not for a change`);
+  return payment.details;
+}
+
+// Puts the paid change on the booking, unless the booking was changed,
+// cancelled or its new seats lapsed since the change was priced
+export async function applyChangePayment(payment: Payment, booking: Booking): Promise<BookingChange | undefined> {
+  const { itinerary, ...details } = changeDetails(payment);
+  if (booking.itineraryVersion !== details.itineraryVersion) return undefined;
+  if (itinerary.seatHoldId && !(await storage.confirmSeatHold(itinerary.seatHoldId))) return undefined;
+
+  return await storage.changeBooking(
+    booking,
+    { ...itinerary, departsAt: itinerary.departsAt ? new Date(itinerary.departsAt) : null },
+    {
+      fareDifference: details.fareDifference,
+      changeFee: details.changeFee,
+      charged: payment.amount,
+      chargedInr: details.chargedInr,
+      changedBy: details.changedBy,
+    }
+  );
+}
+
+// The new seats and the offer go back when the change is not paid for
+export async function releaseChangePayment(payment: Payment): Promise<void> {
+  const { itinerary, offerId } = changeDetails(payment);
+  await Promise.all([
+    releaseQuotedOffer(offerId),
+    itinerary.seatHoldId ? storage.releaseSeatHold(itinerary.seatHoldId) : undefined,
+  ]);
+}
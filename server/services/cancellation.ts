@@ -0,0 +1,119 @@
+import { ACTIVE_BOOKING_STATUSES, Booking, BookingStatus, InsertRefund, Payment, Refund, SeatAssignment } from "@shared/schema";
+import { storage } from "../storage";
+import { fareRuleFor, refundFor, withinDeadline } from "./fareRules";
+import { paymentService } from "./payments";
+import type { FareClass } from "./pricing";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// What cancelling now would return. Seat fees are ancillaries and are not
+// refunded.
+export interface CancellationQuote {
+  pnr: string;
+  refund: number; // in `currency`
+  refundInr: number;
+  currency: string;
+  refundRate: number;
+  withinDeadline: boolean;
+  deadline: string | null; // null for undated itineraries
+}
+
+export type CancellationFailureReason = "not_cancellable" | "departed";
+
+export type CancellationResult =
+  | { ok: true; booking: Booking; refunds: Refund[]; releasedSeats: SeatAssignment[] }
+  | { ok: false; reason: CancellationFailureReason };
+
+export const cancellationFailureResponses: Record<CancellationFailureReason, { status: number; message: string }> = {
+  not_cancellable: { status: 409, message: "Booking has been cancelled or is not paid yet" },
+  departed: { status: 409, message: "Booking can no longer be cancelled after departure" },
+};
+
+export function cancellationBlocker(booking: Booking, now: Date = new Date()): CancellationFailureReason | null {
+  if (!ACTIVE_BOOKING_STATUSES.includes(booking.status as BookingStatus)) return "not_cancellable";
+  if (booking.departsAt && booking.departsAt.getTime() <= now.getTime()) return "departed";
+  return null;
+}
+
+// Refunds follow the fare rules the booking was sold on, not today's
+export function quoteCancellation(booking: Booking, now: Date = new Date()): CancellationQuote {
+  const rule = fareRuleFor(booking.fareClass as FareClass, booking.fareRules);
+  const inTime = withinDeadline(rule, booking.departsAt, now);
+
+  return {
+    pnr: booking.pnr,
+    refund: refundFor(rule, booking.total, booking.departsAt, now),
+    refundInr: refundFor(rule, booking.totalInr ?? booking.total, booking.departsAt, now),
+    currency: booking.currency,
+    refundRate: inTime ? rule.refundRate : 0,
+    withinDeadline: inTime,
+    deadline: booking.departsAt
+      ? new Date(booking.departsAt.getTime() - rule.cancellationDeadlineHours * HOUR_MS).toISOString()
+      : null,
+  };
+}
+
+// Splits the refund over the payments it goes back to, oldest first, each
+// up to what is left of it. Whatever they do not cover, e.g. on bookings
+// made before payments went through a provider, is recorded without one.
+function refundEntries(
+  quote: CancellationQuote,
+  payments: Payment[]
+): Array<Omit<InsertRefund, "bookingId" | "userId">> {
+  const entry = (amount: number, amountInr: number, paymentId: string | null) => ({
+    reason: "cancellation",
+    amount,
+    currency: quote.currency,
+    amountInr,
+    refundRate: quote.refundRate,
+    paymentId,
+  });
+
+  const entries: Array<Omit<InsertRefund, "bookingId" | "userId">> = [];
+  let remaining = quote.refund;
+  let remainingInr = quote.refundInr;
+  for (const payment of payments) {
+    if (remaining <= 0) break;
+    const amount = Math.min(remaining, Number((payment.amount - payment.amountRefunded).toFixed(2)));
+    const amountInr = amount === remaining ? remainingInr : Number((quote.refundInr * amount / quote.refund).toFixed(2));
+    entries.push(entry(amount, amountInr, payment.id));
+    remaining = Number((remaining - amount).toFixed(2));
+    remainingInr = Number((remainingInr - amountInr).toFixed(2));
+  }
+  if (remaining > 0) entries.push(entry(remaining, remainingInr, null));
+  return entries;
+}
+
+// Cancels the booking and records the refund in the ledger; its seats go
+// back to stock and its seat assignments are freed. The money goes back
+// through the providers the fare and any changes were paid with, once the
+// cancellation is stored; a refund a provider fails stays in the ledger for
+// support to settle.
+export async function cancelBooking(booking: Booking, now: Date = new Date()): Promise<CancellationResult> {
+  const blocker = cancellationBlocker(booking, now);
+  if (blocker) return { ok: false, reason: blocker };
+
+  const quote = quoteCancellation(booking, now);
+  const payments = await paymentService.refundablePayments(booking.id);
+  const cancellation = await storage.cancelBooking(
+    booking.id,
+    quote.refund > 0 ? "refunded" : "cancelled",
+    quote.refund > 0 ? refundEntries(quote, payments) : []
+  );
+  // Cancelled by a concurrent request in the meantime
+  if (!cancellation) return { ok: false, reason: "not_cancellable" };
+
+  for (const refund of cancellation.refunds) {
+    const payment = payments.find(payment => payment.id === refund.paymentId);
+    if (!payment) continue;
+    await paymentService.refund(payment, refund.amount)
+      .catch(err => console.error(`Refund of booking ${booking.pnr} failed:`, err));
+  }
+
+  return {
+    ok: true,
+    booking: cancellation.booking,
+    refunds: cancellation.refunds,
+    releasedSeats: cancellation.releasedSeats,
+  };
+}
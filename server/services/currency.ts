@@ -0,0 +1,64 @@
+import { ExchangeRate, InsertExchangeRate, insertExchangeRateSchema } from "@shared/schema";
+import { storage } from "../storage";
+import { Offer } from "./pricing";
+
+export const BASE_CURRENCY = "INR";
+
+export type CurrencyConversion = Pick<ExchangeRate, "currency" | "inrPerUnit" | "roundingIncrement">;
+
+// INR fares are already rounded by pricing, so the base currency passes
+// through unchanged
+const BASE_CONVERSION: CurrencyConversion = { currency: BASE_CURRENCY, inrPerUnit: 1, roundingIncrement: 1 };
+
+export type ExchangeRateImport =
+  | { ok: true; rates: InsertExchangeRate[] }
+  | { ok: false; line: number; message: string };
+
+// Undefined when no rate is maintained for the currency
+export async function getConversion(currency: string): Promise<CurrencyConversion | undefined> {
+  if (currency === BASE_CURRENCY) return BASE_CONVERSION;
+  return await storage.getExchangeRate(currency);
+}
+
+// Increments are at least 0.01, so two decimals absorb floating point noise
+export function convertFromInr(amountInr: number, conversion: CurrencyConversion): number {
+  const { inrPerUnit, roundingIncrement } = conversion;
+  const rounded = Math.round(amountInr / inrPerUnit / roundingIncrement) * roundingIncrement;
+  return Number(rounded.toFixed(2));
+}
+
+// Offers are priced and rounded in INR first, then converted
+export function convertOffers(offers: Offer[], conversion: CurrencyConversion): Offer[] {
+  return offers.map(offer => ({
+    ...offer,
+    currency: conversion.currency,
+    totalFare: convertFromInr(offer.totalFareInr, conversion),
+    exchangeRate: conversion.inrPerUnit,
+  }));
+}
+
+// One rate per line as "currency,inrPerUnit[,roundingIncrement]". Blank
+// lines and a header row starting with "currency" are skipped.
+export function parseExchangeRateCsv(csv: string): ExchangeRateImport {
+  const rates: InsertExchangeRate[] = [];
+  const lines = csv.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || (i === 0 && line.toLowerCase().startsWith("currency"))) continue;
+
+    const [currency, inrPerUnit, roundingIncrement] = line.split(",").map(field => field.trim());
+    const parsed = insertExchangeRateSchema.safeParse({
+      currency,
+      inrPerUnit: Number(inrPerUnit),
+      ...(roundingIncrement ? { roundingIncrement: Number(roundingIncrement) } : {}),
+    });
+    if (!parsed.success) return { ok: false, line: i + 1, message: parsed.error.issues[0].message };
+    if (parsed.data.currency === BASE_CURRENCY) {
+      return { ok: false, line: i + 1, message: `${BASE_CURRENCY} is the base currency` };
+    }
+    rates.push(parsed.data);
+  }
+
+  return { ok: true, rates };
+}
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_DEMAND_CURVE } from "@shared/schema";
+import { DemandService, demandFactorFromSignals, type DemandDataSource, type SegmentInventory } from "./demand";
+
+const NOW = new Date("2026-03-01T00:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixed bookings and seats that record what was asked of them
+function stubSource(paths: string[][], inventory: Record<string, SegmentInventory>) {
+  const calls = { bookingPathsSince: [] as Date[], seatInventory: [] as string[] };
+  const source: DemandDataSource = {
+    bookingPathsSince: async (since) => {
+      calls.bookingPathsSince.push(since);
+      return paths;
+    },
+    seatInventory: async (from, to, departureDate) => {
+      calls.seatInventory.push(`${from}>${to}@${departureDate}`);
+      return inventory[`${from}>${to}@${departureDate}`] ?? null;
+    },
+  };
+  return { source, calls };
+}
+
+test("demandFactorFromSignals adds each premium and clamps to the curve", () => {
+  const curve = DEFAULT_DEMAND_CURVE;
+  assert.equal(demandFactorFromSignals({ bookingsPerDay: 0, loadFactor: null, daysToDeparture: null }, curve), 0.95);
+  // 2 of 20 bookings a day, 80% full and a week out
+  assert.equal(demandFactorFromSignals({ bookingsPerDay: 2, loadFactor: 0.8, daysToDeparture: 7 }, curve), 1.195);
+  assert.equal(demandFactorFromSignals({ bookingsPerDay: 40, loadFactor: 1, daysToDeparture: 0 }, curve), 1.5);
+  assert.equal(demandFactorFromSignals({ bookingsPerDay: 0, loadFactor: 0.2, daysToDeparture: 60 }, { ...curve, baseline: 0.5 }), 0.9);
+});
+
+test("DemandService prices an itinerary at its busiest segment", async () => {
+  const paths = [
+    ...Array.from({ length: 14 }, () => ["DEL", "BOM"]),
+    ["BOM", "GOI", "COK"],
+  ];
+  const { source, calls } = stubSource(paths, {
+    "DEL>BOM@2026-03-08": { capacity: 100, remaining: 20 },
+  });
+  const service = new DemandService(source, () => NOW);
+
+  const segments = [{ from: "DEL", to: "BOM" }, { from: "BOM", to: "GOI" }];
+  assert.equal(await service.demandFactor(segments, DEFAULT_DEMAND_CURVE, "2026-03-08"), 1.195);
+  assert.deepEqual(calls.bookingPathsSince, [new Date(NOW.getTime() - DEFAULT_DEMAND_CURVE.windowDays * DAY_MS)]);
+  assert.deepEqual(calls.seatInventory, ["DEL>BOM@2026-03-08", "BOM>GOI@2026-03-08"]);
+});
+
+test("DemandService reads bookings once per quote and seats only for a dated departure", async () => {
+  const { source, calls } = stubSource([["DEL", "BOM"]], {});
+  const service = new DemandService(source, () => NOW);
+  const segments = [{ from: "DEL", to: "BOM" }, { from: "BOM", to: "GOI" }];
+
+  const first = await service.demandFactor(segments, DEFAULT_DEMAND_CURVE);
+  const second = await service.demandFactor(segments, DEFAULT_DEMAND_CURVE);
+  assert.equal(first, second);
+  assert.equal(first, demandFactorFromSignals({ bookingsPerDay: 1 / 7, loadFactor: null, daysToDeparture: null }, DEFAULT_DEMAND_CURVE));
+  assert.equal(calls.bookingPathsSince.length, 2);
+  assert.deepEqual(calls.seatInventory, []);
+
+  assert.equal(await service.demandFactor([], DEFAULT_DEMAND_CURVE), DEFAULT_DEMAND_CURVE.baseline);
+});
@@ -0,0 +1,100 @@
+import { DemandCurve } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Clock = () => Date;
+
+export interface SegmentInventory {
+  capacity: number;
+  remaining: number;
+}
+
+// Where demand signals come from. Swappable so pricing can run against
+// fixed data instead of the database; the database-backed source lives in
+// demandSource.ts so this module loads without one.
+export interface DemandDataSource {
+  // Paths of itineraries booked after `since`
+  bookingPathsSince(since: Date): Promise<string[][]>;
+  // Seats on a directed segment for a departure date, or null when unknown
+  seatInventory(from: string, to: string, departureDate: string): Promise<SegmentInventory | null>;
+}
+
+export interface DemandSignals {
+  bookingsPerDay: number;
+  loadFactor: number | null;
+  daysToDeparture: number | null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Baseline plus premiums for booking pace, seat load and closeness to
+// departure, clamped to the curve's bounds. Unknown signals add nothing.
+export function demandFactorFromSignals(signals: DemandSignals, curve: DemandCurve): number {
+  const pace = Math.min(signals.bookingsPerDay / curve.peakBookingsPerDay, 1);
+  const load = signals.loadFactor === null || curve.loadThreshold >= 1
+    ? 0
+    : Math.max(0, (signals.loadFactor - curve.loadThreshold) / (1 - curve.loadThreshold));
+  const late = signals.daysToDeparture === null
+    ? 0
+    : Math.max(0, 1 - signals.daysToDeparture / curve.advanceDays);
+
+  const factor = curve.baseline +
+    curve.bookingWeight * pace +
+    curve.loadWeight * load +
+    curve.advanceWeight * late;
+  return Math.round(clamp(factor, curve.min, curve.max) * 1000) / 1000;
+}
+
+// Bookings per directed segment ("FROM>TO")
+function countSegmentBookings(paths: string[][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const path of paths) {
+    for (let i = 0; i < path.length - 1; i++) {
+      const key = `${path[i]}>${path[i + 1]}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+export class DemandService {
+  constructor(
+    private readonly source: DemandDataSource,
+    private readonly clock: Clock = () => new Date()
+  ) {}
+
+  // An itinerary is priced at the demand of its busiest segment. Without a
+  // departure date neither seat load nor days to departure are known.
+  async demandFactor(
+    segments: Array<{ from: string; to: string }>,
+    curve: DemandCurve,
+    departureDate?: string
+  ): Promise<number> {
+    const now = this.clock().getTime();
+    const counts = countSegmentBookings(
+      await this.source.bookingPathsSince(new Date(now - curve.windowDays * DAY_MS))
+    );
+    const daysToDeparture = departureDate
+      ? Math.max(0, (Date.parse(departureDate) - now) / DAY_MS)
+      : null;
+
+    const factors = await Promise.all(segments.map(async ({ from, to }) => {
+      const inventory = departureDate
+        ? await this.source.seatInventory(from, to, departureDate)
+        : null;
+      return demandFactorFromSignals({
+        bookingsPerDay: (counts.get(`${from}>${to}`) ?? 0) / curve.windowDays,
+        loadFactor: inventory && inventory.capacity > 0
+          ? 1 - inventory.remaining / inventory.capacity
+          : null,
+        daysToDeparture,
+      }, curve);
+    }));
+
+    return factors.length > 0
+      ? Math.max(...factors)
+      : demandFactorFromSignals({ bookingsPerDay: 0, loadFactor: null, daysToDeparture }, curve);
+  }
+}
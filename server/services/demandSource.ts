@@ -0,0 +1,14 @@
+import { storage, type IStorage } from "../storage";
+import { DemandService, type DemandDataSource } from "./demand";
+
+// Demand signals from the bookings and seat inventory in the database
+export function storageDemandSource(source: IStorage): DemandDataSource {
+  return {
+    bookingPathsSince: (since) => source.getBookingPathsSince(since),
+    // Departures nobody has held seats on yet have no inventory rows
+    seatInventory: async (from, to, departureDate) =>
+      (await source.getSegmentInventory(from, to, departureDate)) ?? null,
+  };
+}
+
+export const demandService = new DemandService(storageDemandSource(storage));
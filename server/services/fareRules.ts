@@ -0,0 +1,29 @@
+import { FareRule, PaxMix, DEFAULT_FARE_RULES } from "@shared/schema";
+import type { FareClass } from "./pricing";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Offers and bookings made before fare rules existed were sold on the
+// defaults of their class
+export function fareRuleFor(fareClass: FareClass, rule: FareRule | null): FareRule {
+  return rule ?? DEFAULT_FARE_RULES[fareClass];
+}
+
+// Whether a refund or change is still allowed. An undated itinerary has no
+// departure to count back from, so its deadline never passes.
+export function withinDeadline(rule: FareRule, departsAt: Date | null, now: Date = new Date()): boolean {
+  if (!departsAt) return true;
+  return departsAt.getTime() - now.getTime() >= rule.cancellationDeadlineHours * HOUR_MS;
+}
+
+// What a cancellation returns, in the currency `paid` is in; nothing once
+// the deadline has passed
+export function refundFor(rule: FareRule, paid: number, departsAt: Date | null, now: Date = new Date()): number {
+  if (!withinDeadline(rule, departsAt, now)) return 0;
+  return Number((paid * rule.refundRate).toFixed(2));
+}
+
+// Change fee for the whole itinerary in INR; infants have no seat and pay none
+export function changeFeeFor(rule: FareRule, pax: PaxMix): number {
+  return rule.changeFee * (pax.adults + pax.children);
+}
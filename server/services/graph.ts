@@ -1,5 +1,7 @@
-import { RouteEdge, Airport } from "@shared/schema";
+import { RouteEdge, Airport, FlightWithRoute } from "@shared/schema";
 import { haversineKm } from "../utils/haversine";
+import { zonedTimeToUtc, isoWeekday, addDays } from "../utils/timezone";
+import { IndexedMinHeap } from "./heap";
 
 export interface GraphNode {
   code: string;
@@ -7,9 +9,11 @@ export interface GraphNode {
 }
 
 export interface GraphEdge {
+  routeId: string;
   from: string;
   to: string;
   distance: number;
+  aircraftType: string | null;
 }
 
 export interface RouteResult {
@@ -18,40 +22,154 @@ export interface RouteResult {
     from: string;
     to: string;
     distanceKm: number;
+    aircraftType?: string | null;
   }>;
   totalDistance: number;
 }
 
+// A dated departure of a scheduled flight, times as UTC epoch ms
+export interface Connection {
+  flightId: string;
+  flightNumber: string;
+  aircraftType: string;
+  from: string;
+  to: string;
+  distance: number;
+  departureUtc: number;
+  arrivalUtc: number;
+}
+
+export interface TimedSegment {
+  from: string;
+  to: string;
+  distanceKm: number;
+  flightId: string;
+  flightNumber: string;
+  aircraftType: string;
+  departure: string; // ISO-8601 UTC
+  arrival: string; // ISO-8601 UTC
+}
+
+export interface TimedRouteResult extends RouteResult {
+  segments: TimedSegment[];
+  departure: string;
+  arrival: string;
+  durationMinutes: number;
+}
+
+// First departure of a timetable itinerary, or null for an undated route
+export function routeDeparture(route: RouteResult): Date | null {
+  return "departure" in route ? new Date((route as TimedRouteResult).departure) : null;
+}
+
+// Criteria compared by the multi-criteria search. Duration is estimated
+// from distance and connection times, not taken from the timetable.
+export interface CostVector {
+  distance: number;
+  price: number;
+  stops: number;
+  durationMinutes: number;
+}
+
+export interface ParetoRouteResult extends RouteResult {
+  cost: CostVector;
+}
+
+// Additive fare model used to compare itineraries by price: a fixed part
+// charged once plus a charge per leg
+export interface FareEstimator {
+  fixed: number;
+  leg(from: string, distanceKm: number, aircraftType: string | null): number;
+}
+
+export type OptimizeFor = "distance" | "price" | "stops" | "duration" | "balanced";
+
+// Block time estimate for a leg when no timetable is involved
+const ESTIMATED_CRUISE_KMH = 800;
+const ESTIMATED_TAXI_MINUTES = 30;
+
+interface ParetoLabel {
+  node: string;
+  stage: number; // number of vias already visited
+  cost: CostVector;
+  legs: number;
+  edge: GraphEdge | null;
+  parent: ParetoLabel | null;
+  dominated: boolean;
+}
+
+function dominates(a: CostVector, b: CostVector): boolean {
+  return a.distance <= b.distance &&
+    a.price <= b.price &&
+    a.stops <= b.stops &&
+    a.durationMinutes <= b.durationMinutes;
+}
+
+// Days of timetable expanded from the departure date, enough for overnight
+// connections
+const SCHEDULE_WINDOW_DAYS = 3;
+
+// Per-search restrictions: nodes and directed edges ("FROM>TO") that must
+// not be used, and the maximum number of edges (stops + 1) in the path
+export interface SearchOptions {
+  avoidNodes?: Set<string>;
+  avoidEdges?: Set<string>;
+  maxEdges?: number;
+}
+
+export interface RouteConstraints {
+  maxStops?: number;
+  avoid?: string[];
+  via?: string[];
+}
+
+function edgeKey(from: string, to: string): string {
+  return `${from}>${to}`;
+}
+
 export class Graph {
   private nodes: Map<string, GraphNode> = new Map();
   private edges: Map<string, GraphEdge[]> = new Map();
 
   constructor(airports: Airport[], routes: RouteEdge[]) {
-    // Add nodes
-    airports.forEach(airport => {
-      this.nodes.set(airport.code, {
-        code: airport.code,
-        airport,
-      });
-      this.edges.set(airport.code, []);
+    airports.forEach(airport => this.addAirport(airport));
+    routes.forEach(route => this.addRoute(route));
+  }
+
+  addAirport(airport: Airport): void {
+    this.nodes.set(airport.code, {
+      code: airport.code,
+      airport,
     });
+    if (!this.edges.has(airport.code)) this.edges.set(airport.code, []);
+  }
 
-    // Add edges (bidirectional)
-    routes.forEach(route => {
-      if (route.active) {
-        const edge: GraphEdge = {
-          from: route.from,
-          to: route.to,
-          distance: route.distanceKm,
-        };
-        this.edges.get(route.from)?.push(edge);
+  // Add edges (directed, plus the reverse for bidirectional rows)
+  addRoute(route: RouteEdge): void {
+    if (!route.active) return;
 
-        const reverseEdge: GraphEdge = {
-          from: route.to,
-          to: route.from,
-          distance: route.distanceKm,
-        };
-        this.edges.get(route.to)?.push(reverseEdge);
+    this.edges.get(route.from)?.push({
+      routeId: route.id,
+      from: route.from,
+      to: route.to,
+      distance: route.distanceKm,
+      aircraftType: route.aircraftType,
+    });
+    if (!route.bidirectional) return;
+
+    this.edges.get(route.to)?.push({
+      routeId: route.id,
+      from: route.to,
+      to: route.from,
+      distance: route.distanceKm,
+      aircraftType: route.aircraftType,
+    });
+  }
+
+  removeRoute(routeId: string): void {
+    this.edges.forEach((edges, code) => {
+      if (edges.some(e => e.routeId === routeId)) {
+        this.edges.set(code, edges.filter(e => e.routeId !== routeId));
       }
     });
   }
@@ -64,45 +182,50 @@ export class Graph {
     return this.edges.get(code) || [];
   }
 
+  private usableEdges(code: string, options: SearchOptions): GraphEdge[] {
+    const { avoidNodes, avoidEdges } = options;
+    if (!avoidNodes?.size && !avoidEdges?.size) return this.getEdges(code);
+
+    return this.getEdges(code).filter(edge =>
+      !avoidNodes?.has(edge.to) && !avoidEdges?.has(edgeKey(edge.from, edge.to))
+    );
+  }
+
   getAllNodes(): GraphNode[] {
     return Array.from(this.nodes.values());
   }
 
   // ---- Dijkstra ----
-  dijkstra(start: string, end: string): RouteResult | null {
+  dijkstra(start: string, end: string, options: SearchOptions = {}): RouteResult | null {
+    if (isFinite(options.maxEdges ?? Infinity)) {
+      return this.hopLimitedSearch(start, end, options, () => 0);
+    }
+
     const distances = new Map<string, number>();
     const previous = new Map<string, string | null>();
-    const unvisited = new Set<string>();
+    const visited = new Set<string>();
+    const queue = new IndexedMinHeap<string>();
 
     this.nodes.forEach((_, node) => {
       distances.set(node, Infinity);
       previous.set(node, null);
-      unvisited.add(node);
     });
     distances.set(start, 0);
+    queue.insert(start, 0);
 
-    while (unvisited.size > 0) {
-      let current: string | null = null;
-      let minDistance = Infinity;
-      unvisited.forEach(node => {
-        const dist = distances.get(node)!;
-        if (dist < minDistance) {
-          minDistance = dist;
-          current = node;
-        }
-      });
-
-      if (!current || minDistance === Infinity) break;
+    while (queue.size > 0) {
+      const current = queue.pop()!;
       if (current === end) break;
 
-      unvisited.delete(current);
+      visited.add(current);
 
-      for (const edge of this.getEdges(current)) {
-        if (!unvisited.has(edge.to)) continue;
+      for (const edge of this.usableEdges(current, options)) {
+        if (visited.has(edge.to)) continue;
         const alt = distances.get(current)! + edge.distance;
         if (alt < distances.get(edge.to)!) {
           distances.set(edge.to, alt);
           previous.set(edge.to, current);
+          queue.push(edge.to, alt);
         }
       }
     }
@@ -111,62 +234,124 @@ export class Graph {
   }
 
   // ---- A* ----
-  astar(start: string, end: string): RouteResult | null {
+  astar(start: string, end: string, options: SearchOptions = {}): RouteResult | null {
     const startNode = this.getNode(start);
     const endNode = this.getNode(end);
     if (!startNode || !endNode) return null;
 
+    if (isFinite(options.maxEdges ?? Infinity)) {
+      return this.hopLimitedSearch(start, end, options, (code) =>
+        haversineKm(this.getNode(code)!.airport, endNode.airport)
+      );
+    }
+
     const gScore = new Map<string, number>();
-    const fScore = new Map<string, number>();
     const previous = new Map<string, string | null>();
-    const openSet = new Set<string>([start]);
+    const openSet = new IndexedMinHeap<string>();
     const closedSet = new Set<string>();
 
     this.nodes.forEach((_, node) => {
       gScore.set(node, Infinity);
-      fScore.set(node, Infinity);
       previous.set(node, null);
     });
     gScore.set(start, 0);
-    fScore.set(start, haversineKm(startNode.airport, endNode.airport));
+    openSet.insert(start, haversineKm(startNode.airport, endNode.airport));
 
     while (openSet.size > 0) {
-      let current: string | null = null;
-      let minFScore = Infinity;
-      openSet.forEach(node => {
-        const score = fScore.get(node)!;
-        if (score < minFScore) {
-          minFScore = score;
-          current = node;
-        }
-      });
-
-      if (!current) break;
+      const current = openSet.pop()!;
       if (current === end) break;
 
-      openSet.delete(current);
       closedSet.add(current);
 
-      for (const edge of this.getEdges(current)) {
+      for (const edge of this.usableEdges(current, options)) {
         if (closedSet.has(edge.to)) continue;
         const tentativeG = gScore.get(current)! + edge.distance;
-        if (!openSet.has(edge.to)) openSet.add(edge.to);
-        else if (tentativeG >= gScore.get(edge.to)!) continue;
+        if (tentativeG >= gScore.get(edge.to)!) continue;
 
         previous.set(edge.to, current);
         gScore.set(edge.to, tentativeG);
 
         const neighbor = this.getNode(edge.to)!;
         const heuristic = haversineKm(neighbor.airport, endNode.airport);
-        fScore.set(edge.to, tentativeG + heuristic);
+        openSet.push(edge.to, tentativeG + heuristic);
       }
     }
 
     return this.buildRouteResult(start, end, previous, gScore);
   }
 
+  // ---- Yen's k-shortest loopless paths ----
+  kShortestPaths(start: string, end: string, k: number, options: SearchOptions = {}): RouteResult[] {
+    const nextPath = this.shortestPaths(start, end, options);
+    const paths: RouteResult[] = [];
+    while (paths.length < k) {
+      const path = nextPath();
+      if (!path) break;
+      paths.push(path);
+    }
+    return paths;
+  }
+
+  // Loopless paths in order of distance, one per call, until there are no
+  // more. Spur searches keep to what is left of options.maxEdges, so paths
+  // over the limit are never produced rather than filtered out afterwards.
+  shortestPaths(start: string, end: string, options: SearchOptions = {}): () => RouteResult | undefined {
+    const accepted: RouteResult[] = [];
+    const candidates: RouteResult[] = [];
+    const samePath = (a: string[], b: string[]) =>
+      a.length === b.length && a.every((code, i) => code === b[i]);
+
+    const addSpurPaths = (previousPath: string[]) => {
+      for (let i = 0; i < previousPath.length - 1; i++) {
+        const spurNode = previousPath[i];
+        const rootPath = previousPath.slice(0, i + 1);
+        const maxEdges = options.maxEdges === undefined ? undefined : options.maxEdges - i;
+        if (maxEdges !== undefined && maxEdges <= 0) break;
+
+        // Block the next hop of every accepted path sharing this root, and
+        // the root itself so spur paths stay loopless
+        const avoidEdges = new Set(options.avoidEdges);
+        accepted.forEach(({ path }) => {
+          if (path.length > i + 1 && samePath(path.slice(0, i + 1), rootPath)) {
+            avoidEdges.add(edgeKey(path[i], path[i + 1]));
+          }
+        });
+        const avoidNodes = new Set([...Array.from(options.avoidNodes ?? []), ...rootPath.slice(0, -1)]);
+
+        const spur = this.dijkstra(spurNode, end, { avoidNodes, avoidEdges, maxEdges });
+        if (!spur) continue;
+
+        const path = [...rootPath.slice(0, -1), ...spur.path];
+        const known = [...accepted, ...candidates].some(r => samePath(r.path, path));
+        if (!known) candidates.push(this.routeFromPath(path));
+      }
+    };
+
+    let exhausted = false;
+    return () => {
+      if (exhausted) return undefined;
+      if (accepted.length === 0) {
+        const first = this.dijkstra(start, end, options);
+        if (first) accepted.push(first);
+        else exhausted = true;
+        return first ?? undefined;
+      }
+
+      addSpurPaths(accepted[accepted.length - 1].path);
+      if (candidates.length === 0) {
+        exhausted = true;
+        return undefined;
+      }
+      candidates.sort((a, b) => a.totalDistance - b.totalDistance);
+      const next = candidates.shift()!;
+      accepted.push(next);
+      return next;
+    };
+  }
+
   // ---- Bellman-Ford ----
-  bellmanFord(start: string, end: string): RouteResult | null {
+  bellmanFord(start: string, end: string, options: SearchOptions = {}): RouteResult | null {
+    const hopLimited = isFinite(options.maxEdges ?? Infinity);
     const distances = new Map<string, number>();
     const previous = new Map<string, string | null>();
     this.nodes.forEach((_, node) => {
@@ -176,29 +361,56 @@ export class Graph {
     distances.set(start, 0);
 
     const allEdges: GraphEdge[] = [];
-    this.edges.forEach(arr => allEdges.push(...arr));
+    this.nodes.forEach((_, node) => allEdges.push(...this.usableEdges(node, options)));
 
     const V = this.nodes.size;
-    for (let i = 0; i < V - 1; i++) {
+    const rounds = Math.min(V - 1, options.maxEdges ?? Infinity);
+    const changesByRound: Map<string, string>[] = [];
+    for (let i = 0; i < rounds; i++) {
+      // With a hop limit each round relaxes against the previous round's
+      // distances only, so after round i no path has more than i + 1 edges
+      const source = hopLimited ? new Map(distances) : distances;
+      const changes = new Map<string, string>();
       for (const edge of allEdges) {
-        if (distances.get(edge.from)! + edge.distance < distances.get(edge.to)!) {
-          distances.set(edge.to, distances.get(edge.from)! + edge.distance);
+        const alt = source.get(edge.from)! + edge.distance;
+        if (alt < distances.get(edge.to)!) {
+          distances.set(edge.to, alt);
           previous.set(edge.to, edge.from);
+          changes.set(edge.to, edge.from);
         }
       }
+      changesByRound.push(changes);
     }
 
     if (distances.get(end) === Infinity) return null;
-    return this.buildRouteResult(start, end, previous, distances);
+    if (!hopLimited) return this.buildRouteResult(start, end, previous, distances);
+
+    // A node's predecessor is the one recorded in the last round it improved;
+    // that predecessor's own value must come from an earlier round
+    const path: string[] = [end];
+    let node = end;
+    let round = changesByRound.length - 1;
+    while (node !== start) {
+      while (round >= 0 && !changesByRound[round].has(node)) round--;
+      if (round < 0) return null;
+      node = changesByRound[round].get(node)!;
+      path.unshift(node);
+      round--;
+    }
+    return this.routeFromPath(path);
   }
 
   // ---- Floyd-Warshall ----
-  floydWarshall(start: string, end: string): RouteResult | null {
+  floydWarshall(start: string, end: string, options: SearchOptions = {}): RouteResult | null {
     const nodes = Array.from(this.nodes.keys());
     const n = nodes.length;
     const indexMap = new Map<string, number>();
     nodes.forEach((c, i) => indexMap.set(c, i));
 
+    const sIdx = indexMap.get(start);
+    const tIdx = indexMap.get(end);
+    if (sIdx === undefined || tIdx === undefined) return null;
+
     const dist: number[][] = Array.from({ length: n }, () =>
       Array(n).fill(Infinity)
     );
@@ -209,15 +421,20 @@ export class Graph {
     nodes.forEach((u, i) => {
       dist[i][i] = 0;
     });
-    this.edges.forEach((edges, u) => {
-      const i = indexMap.get(u)!;
-      edges.forEach(e => {
+    nodes.forEach((u, i) => {
+      this.usableEdges(u, options).forEach(e => {
         const j = indexMap.get(e.to)!;
-        dist[i][j] = e.distance;
-        next[i][j] = e.to;
+        if (e.distance < dist[i][j]) {
+          dist[i][j] = e.distance;
+          next[i][j] = e.to;
+        }
       });
     });
 
+    if (isFinite(options.maxEdges ?? Infinity)) {
+      return this.hopLimitedAllPairs(nodes, dist, sIdx, tIdx, options.maxEdges!);
+    }
+
     for (let k = 0; k < n; k++) {
       for (let i = 0; i < n; i++) {
         for (let j = 0; j < n; j++) {
@@ -229,8 +446,6 @@ export class Graph {
       }
     }
 
-    const sIdx = indexMap.get(start)!;
-    const tIdx = indexMap.get(end)!;
     if (dist[sIdx][tIdx] === Infinity) return null;
 
     // Reconstruct path
@@ -242,19 +457,371 @@ export class Graph {
       path.push(u);
     }
 
-    // Build segments
-    const segments: Array<{ from: string; to: string; distanceKm: number }> = [];
-    let totalDistance = 0;
-    for (let i = 0; i < path.length - 1; i++) {
-      const from = path[i];
-      const to = path[i + 1];
-      const edge = this.getEdges(from).find(e => e.to === to);
-      const d = edge?.distance || 0;
-      segments.push({ from, to, distanceKm: d });
-      totalDistance += d;
+    return this.routeFromPath(path);
+  }
+
+  // Hop-indexed all-pairs recurrence used by Floyd-Warshall under a stop
+  // limit: D(h) = min(D(h-1), D(h-1) ⊗ W), where lastHop[h][i][j] records
+  // the predecessor of j when layer h improved i→j
+  private hopLimitedAllPairs(
+    nodes: string[],
+    weights: number[][],
+    sIdx: number,
+    tIdx: number,
+    maxEdges: number
+  ): RouteResult | null {
+    const n = nodes.length;
+    let dist = weights.map(row => [...row]);
+    const lastHop: Int32Array[][] = [];
+
+    lastHop.push(weights.map((row, i) => Int32Array.from(row, (w, j) => (i !== j && w < Infinity ? i : -1))));
+
+    for (let h = 2; h <= Math.min(maxEdges, n - 1); h++) {
+      const layerDist = dist.map(row => [...row]);
+      const layerHop = Array.from({ length: n }, () => new Int32Array(n).fill(-1));
+      for (let i = 0; i < n; i++) {
+        for (let k = 0; k < n; k++) {
+          if (dist[i][k] === Infinity) continue;
+          for (let j = 0; j < n; j++) {
+            if (dist[i][k] + weights[k][j] < layerDist[i][j]) {
+              layerDist[i][j] = dist[i][k] + weights[k][j];
+              layerHop[i][j] = k;
+            }
+          }
+        }
+      }
+      dist = layerDist;
+      lastHop.push(layerHop);
     }
 
-    return { path, segments, totalDistance };
+    if (dist[sIdx][tIdx] === Infinity) return null;
+
+    const path: string[] = [nodes[tIdx]];
+    let j = tIdx;
+    let layer = lastHop.length - 1;
+    while (j !== sIdx) {
+      while (layer >= 0 && lastHop[layer][sIdx][j] === -1) layer--;
+      if (layer < 0) return null;
+      j = lastHop[layer][sIdx][j];
+      path.unshift(nodes[j]);
+      layer--;
+    }
+
+    return this.routeFromPath(path);
+  }
+
+  // Shortest path over (node, edges used) states so the path never exceeds
+  // options.maxEdges. Backs Dijkstra (zero heuristic) and A* under a stop limit.
+  private hopLimitedSearch(
+    start: string,
+    end: string,
+    options: SearchOptions,
+    heuristic: (code: string) => number
+  ): RouteResult | null {
+    const maxEdges = options.maxEdges!;
+    const stateKey = (code: string, hops: number) => `${code}#${hops}`;
+
+    const gScore = new Map<string, number>();
+    const previous = new Map<string, string | null>();
+    const closed = new Set<string>();
+    const open = new IndexedMinHeap<string>();
+
+    const startKey = stateKey(start, 0);
+    gScore.set(startKey, 0);
+    previous.set(startKey, null);
+    open.insert(startKey, heuristic(start));
+
+    while (open.size > 0) {
+      const currentKey = open.pop()!;
+      const separator = currentKey.lastIndexOf("#");
+      const current = currentKey.slice(0, separator);
+      const hops = Number(currentKey.slice(separator + 1));
+
+      if (current === end) {
+        const path: string[] = [];
+        let key: string | null = currentKey;
+        while (key !== null) {
+          path.unshift(key.slice(0, key.lastIndexOf("#")));
+          key = previous.get(key) ?? null;
+        }
+        return this.routeFromPath(path);
+      }
+
+      closed.add(currentKey);
+      if (hops >= maxEdges) continue;
+
+      for (const edge of this.usableEdges(current, options)) {
+        const nextKey = stateKey(edge.to, hops + 1);
+        if (closed.has(nextKey)) continue;
+        const tentativeG = gScore.get(currentKey)! + edge.distance;
+        if (tentativeG >= (gScore.get(nextKey) ?? Infinity)) continue;
+
+        gScore.set(nextKey, tentativeG);
+        previous.set(nextKey, currentKey);
+        open.push(nextKey, tentativeG + heuristic(edge.to));
+      }
+    }
+
+    return null;
+  }
+
+  // ---- Timetable ----
+  minConnectionMs(code: string): number {
+    return (this.getNode(code)?.airport.minConnectionMinutes ?? 0) * 60 * 1000;
+  }
+
+  // Dated departures over `days` local dates starting at `fromDate`, for
+  // every flight whose route edge is currently in the graph, sorted by
+  // departure time
+  expandSchedule(flights: FlightWithRoute[], fromDate: string, days: number): Connection[] {
+    const connections: Connection[] = [];
+
+    for (const flight of flights) {
+      const edge = this.getEdges(flight.from).find(e => e.routeId === flight.routeEdgeId && e.to === flight.to);
+      const destination = this.getNode(flight.to);
+      if (!edge || !destination) continue;
+      const origin = this.getNode(flight.from)!;
+
+      for (let i = 0; i < days; i++) {
+        const date = addDays(fromDate, i);
+        if (!flight.daysOfOperation.includes(isoWeekday(date))) continue;
+
+        connections.push({
+          flightId: flight.id,
+          flightNumber: flight.flightNumber,
+          aircraftType: flight.aircraftType,
+          from: flight.from,
+          to: flight.to,
+          distance: edge.distance,
+          departureUtc: zonedTimeToUtc(date, flight.departureTime, origin.airport.timezone),
+          arrivalUtc: zonedTimeToUtc(date, flight.arrivalTime, destination.airport.timezone, flight.arrivalDayOffset),
+        });
+      }
+    }
+
+    return connections.sort((a, b) => a.departureUtc - b.departureUtc);
+  }
+
+  // ---- Connection scan (earliest arrival) ----
+  // `connections` must be sorted by departure. Transfers respect each
+  // airport's minimum connection time. Under a stop limit the scan runs once
+  // per allowed flight, each round only extending the previous round's
+  // arrivals.
+  earliestArrival(
+    start: string,
+    end: string,
+    connections: Connection[],
+    departAfterUtc: number,
+    options: SearchOptions = {}
+  ): TimedRouteResult | null {
+    const { avoidNodes, avoidEdges } = options;
+    const limited = isFinite(options.maxEdges ?? Infinity);
+    const rounds = limited ? options.maxEdges! : 1;
+    const usable = connections.filter(c =>
+      !avoidNodes?.has(c.to) && !avoidEdges?.has(edgeKey(c.from, c.to))
+    );
+
+    let arrival = new Map<string, number>();
+    let inbound = new Map<string, { connection: Connection; round: number }>();
+    const inboundByRound: Array<typeof inbound> = [];
+
+    for (let round = 0; round < rounds; round++) {
+      const source = arrival;
+      const nextArrival = limited ? new Map(arrival) : arrival;
+      const nextInbound = limited ? new Map(inbound) : inbound;
+
+      for (const c of usable) {
+        if (c.to === start) continue;
+        const readyAt = c.from === start
+          ? departAfterUtc
+          : (source.get(c.from) ?? Infinity) + this.minConnectionMs(c.from);
+        if (readyAt > c.departureUtc) continue;
+
+        if (c.arrivalUtc < (nextArrival.get(c.to) ?? Infinity)) {
+          nextArrival.set(c.to, c.arrivalUtc);
+          nextInbound.set(c.to, { connection: c, round });
+        }
+      }
+
+      arrival = nextArrival;
+      inbound = nextInbound;
+      inboundByRound.push(inbound);
+    }
+
+    if (!inbound.has(end)) return null;
+
+    const legs: Connection[] = [];
+    let node = end;
+    let round = inboundByRound.length - 1;
+    while (node !== start) {
+      const entry = round >= 0 ? inboundByRound[round].get(node) : undefined;
+      if (!entry) return null;
+      legs.unshift(entry.connection);
+      node = entry.connection.from;
+      if (limited) round = entry.round - 1;
+    }
+
+    return this.timedRouteFromSegments(legs.map(c => ({
+      from: c.from,
+      to: c.to,
+      distanceKm: c.distance,
+      flightId: c.flightId,
+      flightNumber: c.flightNumber,
+      aircraftType: c.aircraftType,
+      departure: new Date(c.departureUtc).toISOString(),
+      arrival: new Date(c.arrivalUtc).toISOString(),
+    })));
+  }
+
+  timedRouteFromSegments(segments: TimedSegment[]): TimedRouteResult {
+    const departure = segments[0].departure;
+    const arrival = segments[segments.length - 1].arrival;
+
+    return {
+      path: [segments[0].from, ...segments.map(s => s.to)],
+      segments,
+      totalDistance: segments.reduce((sum, s) => sum + s.distanceKm, 0),
+      departure,
+      arrival,
+      durationMinutes: Math.round((Date.parse(arrival) - Date.parse(departure)) / 60000),
+    };
+  }
+
+  // ---- Multi-criteria label setting ----
+  // Every label is a partial path with its cost vector. Labels are settled
+  // in order of the sum of their costs, which every dominating label beats,
+  // so a settled label is never dominated later. Labels dominated by
+  // another at the same node and via stage, or by a complete itinerary, are
+  // discarded; what reaches `end` is the Pareto-optimal set.
+  paretoRoutes(
+    start: string,
+    end: string,
+    fares: FareEstimator,
+    options: SearchOptions & { via?: string[] } = {}
+  ): ParetoRouteResult[] {
+    if (!this.nodes.has(start) || !this.nodes.has(end)) return [];
+
+    const via = options.via ?? [];
+    const maxEdges = options.maxEdges ?? Infinity;
+    const bucketKey = (node: string, stage: number) => `${node}#${stage}`;
+    const targetKey = bucketKey(end, via.length);
+
+    const buckets = new Map<string, ParetoLabel[]>();
+    const heap = new IndexedMinHeap<ParetoLabel>();
+    const priority = (c: CostVector) => c.distance + c.price + c.stops + c.durationMinutes;
+
+    const addLabel = (label: ParetoLabel): void => {
+      const key = bucketKey(label.node, label.stage);
+      const target = buckets.get(targetKey) ?? [];
+      const bucket = buckets.get(key) ?? [];
+      if (target.some(t => dominates(t.cost, label.cost))) return;
+      if (bucket.some(b => dominates(b.cost, label.cost))) return;
+
+      const kept = bucket.filter(b => {
+        if (!dominates(label.cost, b.cost)) return true;
+        b.dominated = true;
+        return false;
+      });
+      kept.push(label);
+      buckets.set(key, kept);
+      heap.insert(label, priority(label.cost));
+    };
+
+    const onPath = (label: ParetoLabel, code: string): boolean => {
+      for (let l: ParetoLabel | null = label; l; l = l.parent) {
+        if (l.node === code) return true;
+      }
+      return false;
+    };
+
+    addLabel({
+      node: start,
+      stage: 0,
+      cost: { distance: 0, price: fares.fixed, stops: 0, durationMinutes: 0 },
+      legs: 0,
+      edge: null,
+      parent: null,
+      dominated: false,
+    });
+
+    while (heap.size > 0) {
+      const label = heap.pop()!;
+      if (label.dominated) continue;
+      if (label.node === end && label.stage === via.length) continue;
+      if (label.legs >= maxEdges) continue;
+
+      const connectionMinutes = label.legs > 0
+        ? this.minConnectionMs(label.node) / 60000
+        : 0;
+
+      for (const edge of this.usableEdges(label.node, options)) {
+        if (onPath(label, edge.to)) continue;
+
+        // Vias are entered in order; the destination only after all of them
+        let stage = label.stage;
+        if (edge.to === via[stage]) stage++;
+        else if (via.includes(edge.to)) continue;
+        if (edge.to === end && stage < via.length) continue;
+
+        const blockMinutes = (edge.distance / ESTIMATED_CRUISE_KMH) * 60 + ESTIMATED_TAXI_MINUTES;
+        addLabel({
+          node: edge.to,
+          stage,
+          cost: {
+            distance: label.cost.distance + edge.distance,
+            price: label.cost.price + fares.leg(edge.from, edge.distance, edge.aircraftType),
+            stops: label.legs,
+            durationMinutes: label.cost.durationMinutes + connectionMinutes + blockMinutes,
+          },
+          legs: label.legs + 1,
+          edge,
+          parent: label,
+          dominated: false,
+        });
+      }
+    }
+
+    return (buckets.get(targetKey) ?? [])
+      .map(label => {
+        const segments: RouteResult["segments"] = [];
+        for (let l: ParetoLabel | null = label; l?.edge; l = l.parent) {
+          segments.unshift({
+            from: l.edge.from,
+            to: l.edge.to,
+            distanceKm: l.edge.distance,
+            aircraftType: l.edge.aircraftType,
+          });
+        }
+        return {
+          path: [start, ...segments.map(s => s.to)],
+          segments,
+          totalDistance: label.cost.distance,
+          cost: {
+            ...label.cost,
+            price: Math.round(label.cost.price),
+            durationMinutes: Math.round(label.cost.durationMinutes),
+          },
+        };
+      })
+      .sort((a, b) => a.totalDistance - b.totalDistance);
+  }
+
+  // Fewest edges from start to end, or null when unreachable
+  minHops(start: string, end: string, options: SearchOptions = {}): number | null {
+    const hops = new Map<string, number>([[start, 0]]);
+    const queue: string[] = [start];
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (current === end) return hops.get(current)!;
+      for (const edge of this.usableEdges(current, options)) {
+        if (hops.has(edge.to)) continue;
+        hops.set(edge.to, hops.get(current)! + 1);
+        queue.push(edge.to);
+      }
+    }
+
+    return null;
   }
 
   // ---- Helper to rebuild route ----
@@ -273,14 +840,18 @@ export class Graph {
       current = previous.get(current) || null;
     }
 
-    const segments: Array<{ from: string; to: string; distanceKm: number }> = [];
+    return this.routeFromPath(path);
+  }
+
+  routeFromPath(path: string[]): RouteResult {
+    const segments: RouteResult["segments"] = [];
     let totalDistance = 0;
     for (let i = 0; i < path.length - 1; i++) {
       const from = path[i];
       const to = path[i + 1];
       const edge = this.getEdges(from).find(e => e.to === to);
       const d = edge?.distance || 0;
-      segments.push({ from, to, distanceKm: d });
+      segments.push({ from, to, distanceKm: d, aircraftType: edge?.aircraftType ?? null });
       totalDistance += d;
     }
 
@@ -289,25 +860,220 @@ export class Graph {
 }
 
 // ---- Exposed wrapper ----
-export async function computeRoute(
-  airports: Airport[],
-  routes: RouteEdge[],
+export type RouteAlgorithm = "dijkstra" | "astar" | "bellmanford" | "floydwarshall";
+
+function runAlgorithm(
+  graph: Graph,
+  algorithm: RouteAlgorithm,
   from: string,
   to: string,
-  algorithm: "dijkstra" | "astar" | "bellmanford" | "floydwarshall"
-): Promise<RouteResult | null> {
-  const graph = new Graph(airports, routes);
-
+  options: SearchOptions
+): RouteResult | null {
   switch (algorithm) {
     case "dijkstra":
-      return graph.dijkstra(from, to);
+      return graph.dijkstra(from, to, options);
     case "astar":
-      return graph.astar(from, to);
+      return graph.astar(from, to, options);
     case "bellmanford":
-      return graph.bellmanFord(from, to);
+      return graph.bellmanFord(from, to, options);
     case "floydwarshall":
-      return graph.floydWarshall(from, to);
+      return graph.floydWarshall(from, to, options);
     default:
       return null;
   }
 }
+
+function satisfiesConstraints(route: RouteResult, constraints: RouteConstraints): boolean {
+  const { maxStops, avoid = [], via = [] } = constraints;
+  if (maxStops !== undefined && route.path.length - 2 > maxStops) return false;
+  if (route.path.some(code => avoid.includes(code))) return false;
+
+  // Vias must appear in the given order
+  let position = 0;
+  for (const code of via) {
+    const index = route.path.indexOf(code, position);
+    if (index === -1) return false;
+    position = index + 1;
+  }
+  return true;
+}
+
+// Solves the itinerary leg by leg between the ordered waypoints
+// (from, ...via, to). Each leg avoids nodes used by earlier legs and later
+// waypoints so the full path stays loopless. Under a stop limit every later
+// leg keeps back the minimum number of edges it needs, and the current leg
+// may use the rest.
+function planLegs<T extends RouteResult>(
+  graph: Graph,
+  from: string,
+  to: string,
+  constraints: RouteConstraints,
+  solveLeg: (legFrom: string, legTo: string, options: SearchOptions, previous: T | null) => T | null
+): T[] | null {
+  const avoid = new Set(constraints.avoid ?? []);
+  const waypoints = [from, ...(constraints.via ?? []), to];
+  if (waypoints.some(code => avoid.has(code))) return null;
+  if (new Set(waypoints).size !== waypoints.length) return null;
+
+  const maxEdges = constraints.maxStops === undefined ? Infinity : constraints.maxStops + 1;
+  const legs = waypoints.length - 1;
+  if (legs > maxEdges) return null;
+
+  const path: string[] = [from];
+  const solved: T[] = [];
+  let edgesLeft = maxEdges;
+
+  for (let i = 0; i < legs; i++) {
+    const avoidNodes = new Set([
+      ...Array.from(avoid),
+      ...path.slice(0, -1),
+      ...waypoints.slice(i + 2),
+    ]);
+
+    let reserved = 0;
+    if (isFinite(maxEdges)) {
+      for (let j = i + 1; j < legs; j++) {
+        const hops = graph.minHops(waypoints[j], waypoints[j + 1], { avoidNodes: avoid });
+        if (hops === null) return null;
+        reserved += hops;
+      }
+    }
+
+    const leg = solveLeg(waypoints[i], waypoints[i + 1], {
+      avoidNodes,
+      maxEdges: edgesLeft - reserved,
+    }, solved[solved.length - 1] ?? null);
+    if (!leg) return null;
+
+    edgesLeft -= leg.path.length - 1;
+    path.push(...leg.path.slice(1));
+    solved.push(leg);
+  }
+
+  return solved;
+}
+
+export async function computeRoute(
+  graph: Graph,
+  from: string,
+  to: string,
+  algorithm: RouteAlgorithm,
+  constraints: RouteConstraints = {}
+): Promise<RouteResult | null> {
+  const legs = planLegs<RouteResult>(graph, from, to, constraints, (legFrom, legTo, options) =>
+    runAlgorithm(graph, algorithm, legFrom, legTo, options)
+  );
+  if (!legs) return null;
+  if (legs.length === 1) return legs[0];
+
+  const path = [from, ...legs.flatMap(leg => leg.path.slice(1))];
+  return graph.routeFromPath(path);
+}
+
+// Earliest-arrival itinerary over the flight timetable for a local departure
+// date at the origin. Vias are treated as connection points, so each leg
+// departs no earlier than the previous arrival plus the via's connection time.
+export async function computeTimedRoute(
+  graph: Graph,
+  flights: FlightWithRoute[],
+  from: string,
+  to: string,
+  date: string,
+  constraints: RouteConstraints = {}
+): Promise<TimedRouteResult | null> {
+  const origin = graph.getNode(from);
+  if (!origin) return null;
+
+  const connections = graph.expandSchedule(flights, date, SCHEDULE_WINDOW_DAYS);
+  const departAfter = zonedTimeToUtc(date, "00:00", origin.airport.timezone);
+
+  const legs = planLegs<TimedRouteResult>(graph, from, to, constraints, (legFrom, legTo, options, previous) => {
+    const readyAt = previous
+      ? Date.parse(previous.arrival) + graph.minConnectionMs(legFrom)
+      : departAfter;
+    return graph.earliestArrival(legFrom, legTo, connections, readyAt, options);
+  });
+  if (!legs) return null;
+
+  return graph.timedRouteFromSegments(legs.flatMap(leg => leg.segments));
+}
+
+// Pareto-optimal itineraries over distance, estimated fare, stops and
+// estimated duration, ordered by distance
+export function computeParetoRoutes(
+  graph: Graph,
+  from: string,
+  to: string,
+  fares: FareEstimator,
+  constraints: RouteConstraints = {}
+): ParetoRouteResult[] {
+  const avoid = new Set(constraints.avoid ?? []);
+  const via = constraints.via ?? [];
+  const waypoints = [from, ...via, to];
+  if (waypoints.some(code => avoid.has(code))) return [];
+  if (new Set(waypoints).size !== waypoints.length) return [];
+
+  return graph.paretoRoutes(from, to, fares, {
+    avoidNodes: avoid,
+    maxEdges: constraints.maxStops === undefined ? Infinity : constraints.maxStops + 1,
+    via,
+  });
+}
+
+// Orders a Pareto set by a single preference. "balanced" scores each route
+// by the sum of its criteria relative to the best value in the set.
+export function rankParetoRoutes(routes: ParetoRouteResult[], optimize: OptimizeFor): ParetoRouteResult[] {
+  const criteria: Array<keyof CostVector> = ["distance", "price", "stops", "durationMinutes"];
+  // Stops can be zero, so they are compared as legs (stops + 1)
+  const value = (cost: CostVector, key: keyof CostVector) => key === "stops" ? cost.stops + 1 : cost[key];
+  const best = Object.fromEntries(
+    criteria.map(key => [key, Math.min(...routes.map(r => value(r.cost, key)))])
+  ) as Record<keyof CostVector, number>;
+
+  const score = (cost: CostVector): number => {
+    switch (optimize) {
+      case "distance":
+        return cost.distance;
+      case "price":
+        return cost.price;
+      case "stops":
+        return cost.stops;
+      case "duration":
+        return cost.durationMinutes;
+      case "balanced":
+        return criteria.reduce((sum, key) => sum + value(cost, key) / (best[key] || 1), 0);
+    }
+  };
+
+  // Ties fall back to the shorter route
+  return [...routes].sort((a, b) => score(a.cost) - score(b.cost) || a.totalDistance - b.totalDistance);
+}
+
+// Up to `count` other loopless paths ranked by distance, skipping `primary`.
+// Stop limits and vias are not expressible in Yen's spur searches, so extra
+// candidates are generated and filtered against the constraints afterwards.
+export function computeAlternativeRoutes(
+  graph: Graph,
+  from: string,
+  to: string,
+  primary: RouteResult,
+  count: number,
+  constraints: RouteConstraints = {}
+): RouteResult[] {
+  if (count <= 0) return [];
+
+  // The stop limit is kept during the search; vias are checked on each path
+  // found, which are pulled until enough pass or none are left
+  const nextPath = graph.shortestPaths(from, to, {
+    avoidNodes: new Set(constraints.avoid ?? []),
+    maxEdges: constraints.maxStops === undefined ? undefined : constraints.maxStops + 1,
+  });
+  const primaryKey = primary.path.join(">");
+  const alternatives: RouteResult[] = [];
+  while (alternatives.length < count) {
+    const route = nextPath();
+    if (!route) break;
+    if (route.path.join(">") !== primaryKey && satisfiesConstraints(route, constraints)) alternatives.push(route);
+  }
+  return alternatives;
+}
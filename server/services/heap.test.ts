@@ -0,0 +1,246 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { performance } from "node:perf_hooks";
+import type { Airport, RouteEdge } from "@shared/schema";
+import { haversineKm } from "../utils/haversine";
+import { Graph } from "./graph";
+import { IndexedMinHeap } from "./heap";
+
+const NODE_COUNT = 5000;
+const PAIR_COUNT = 20;
+
+// mulberry32, so every run searches the same graph
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Airports scattered over a region, each linked to a few others near it in
+// longitude plus its neighbour, so the graph is connected. Legs are never
+// shorter than the great circle, which keeps the A* heuristic admissible.
+function generateGraph(random: () => number): Graph {
+  const airports = Array.from({ length: NODE_COUNT }, (_, i) => ({
+    code: `N${i}`,
+    lat: 5 + random() * 30,
+    lon: 65 + random() * 30,
+    minConnectionMinutes: 45,
+  }) as Airport).sort((a, b) => a.lon - b.lon);
+
+  const routes: RouteEdge[] = [];
+  const linked = new Set<string>();
+  const link = (from: Airport, to: Airport) => {
+    const id = `${from.code}-${to.code}`;
+    if (linked.has(id)) return;
+    linked.add(id);
+    routes.push({
+      id,
+      from: from.code,
+      to: to.code,
+      distanceKm: haversineKm(from, to) * (1 + random() * 0.3),
+      aircraftType: null,
+      active: true,
+      bidirectional: true,
+    } as RouteEdge);
+  };
+
+  airports.forEach((airport, i) => {
+    if (i > 0) link(airports[i - 1], airport);
+    for (let k = 0; k < 3; k++) {
+      const j = i + 1 + Math.floor(random() * 60);
+      if (j < airports.length) link(airport, airports[j]);
+    }
+  });
+  return new Graph(airports, routes);
+}
+
+function pathTo(end: string, previous: Map<string, string | null>): string[] {
+  const path: string[] = [];
+  for (let current: string | null = end; current !== null; current = previous.get(current) ?? null) {
+    path.unshift(current);
+  }
+  return path;
+}
+
+interface SearchRun {
+  path: string[];
+  distance: number;
+  scanned: number; // candidates compared to pick the next node
+}
+
+// The searches as they were before the heap: the next node is found by
+// scanning every candidate
+function linearDijkstra(graph: Graph, start: string, end: string): SearchRun {
+  const distances = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  const unvisited = new Set<string>();
+
+  graph.getAllNodes().forEach(({ code }) => {
+    distances.set(code, Infinity);
+    previous.set(code, null);
+    unvisited.add(code);
+  });
+  distances.set(start, 0);
+  let scanned = 0;
+
+  while (unvisited.size > 0) {
+    scanned += unvisited.size;
+    let current: string | null = null;
+    let minDistance = Infinity;
+    unvisited.forEach(node => {
+      const dist = distances.get(node)!;
+      if (dist < minDistance) {
+        minDistance = dist;
+        current = node;
+      }
+    });
+
+    if (!current || minDistance === Infinity) break;
+    if (current === end) break;
+
+    unvisited.delete(current);
+
+    for (const edge of graph.getEdges(current)) {
+      if (!unvisited.has(edge.to)) continue;
+      const alt = distances.get(current)! + edge.distance;
+      if (alt < distances.get(edge.to)!) {
+        distances.set(edge.to, alt);
+        previous.set(edge.to, current);
+      }
+    }
+  }
+
+  return { path: pathTo(end, previous), distance: distances.get(end)!, scanned };
+}
+
+function linearAstar(graph: Graph, start: string, end: string): SearchRun {
+  const endAirport = graph.getNode(end)!.airport;
+  const gScore = new Map<string, number>();
+  const fScore = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  const openSet = new Set<string>([start]);
+  const closedSet = new Set<string>();
+
+  graph.getAllNodes().forEach(({ code }) => {
+    gScore.set(code, Infinity);
+    fScore.set(code, Infinity);
+    previous.set(code, null);
+  });
+  gScore.set(start, 0);
+  fScore.set(start, haversineKm(graph.getNode(start)!.airport, endAirport));
+  let scanned = 0;
+
+  while (openSet.size > 0) {
+    scanned += openSet.size;
+    let current: string | null = null;
+    let minFScore = Infinity;
+    openSet.forEach(node => {
+      const score = fScore.get(node)!;
+      if (score < minFScore) {
+        minFScore = score;
+        current = node;
+      }
+    });
+
+    if (!current) break;
+    if (current === end) break;
+
+    openSet.delete(current);
+    closedSet.add(current);
+
+    for (const edge of graph.getEdges(current)) {
+      if (closedSet.has(edge.to)) continue;
+      const tentativeG = gScore.get(current)! + edge.distance;
+      if (!openSet.has(edge.to)) openSet.add(edge.to);
+      else if (tentativeG >= gScore.get(edge.to)!) continue;
+
+      previous.set(edge.to, current);
+      gScore.set(edge.to, tentativeG);
+      fScore.set(edge.to, tentativeG + haversineKm(graph.getNode(edge.to)!.airport, endAirport));
+    }
+  }
+
+  return { path: pathTo(end, previous), distance: gScore.get(end)!, scanned };
+}
+
+// Heap operations made while `run` searches, each at most log2(n) sifts.
+// Timings are only reported: they vary too much on a busy machine to assert.
+function measured<T>(run: () => T): { result: T; operations: number; ms: number } {
+  const heap = IndexedMinHeap.prototype as any;
+  const originals = { insert: heap.insert, decreaseKey: heap.decreaseKey, pop: heap.pop };
+  let operations = 0;
+  for (const [name, original] of Object.entries(originals)) {
+    heap[name] = function (this: unknown, ...args: unknown[]) {
+      operations++;
+      return original.apply(this, args);
+    };
+  }
+
+  const started = performance.now();
+  try {
+    const result = run();
+    return { result, operations, ms: performance.now() - started };
+  } finally {
+    Object.assign(heap, originals);
+  }
+}
+
+test("IndexedMinHeap pops in priority order after decreases", () => {
+  const heap = new IndexedMinHeap<string>();
+  heap.insert("a", 5);
+  heap.insert("b", 3);
+  heap.insert("c", 8);
+  assert.equal(heap.push("c", 9), false);
+  assert.equal(heap.push("c", 1), true);
+  heap.decreaseKey("a", 2);
+
+  const order: string[] = [];
+  while (heap.size > 0) order.push(heap.pop()!);
+  assert.deepEqual(order, ["c", "a", "b"]);
+  assert.throws(() => heap.decreaseKey("a", 1));
+});
+
+test("heap-based searches match the linear scan on a 5k-node graph with less work", (t) => {
+  const random = seededRandom(20240501);
+  const graph = generateGraph(random);
+  const codes = graph.getAllNodes().map(node => node.code);
+  const pairs = Array.from({ length: PAIR_COUNT }, () => [
+    codes[Math.floor(random() * codes.length)],
+    codes[Math.floor(random() * codes.length)],
+  ]).filter(([from, to]) => from !== to);
+
+  const work = { dijkstra: 0, linearDijkstra: 0, astar: 0, linearAstar: 0 };
+  const ms = { ...work };
+  const siftsPerOperation = Math.ceil(Math.log2(NODE_COUNT));
+  for (const [from, to] of pairs) {
+    const heapDijkstra = measured(() => graph.dijkstra(from, to));
+    const scanDijkstra = measured(() => linearDijkstra(graph, from, to));
+    const heapAstar = measured(() => graph.astar(from, to));
+    const scanAstar = measured(() => linearAstar(graph, from, to));
+
+    assert.ok(heapDijkstra.result && heapAstar.result, `no route ${from} → ${to}`);
+    assert.deepEqual(heapDijkstra.result.path, scanDijkstra.result.path);
+    assert.ok(Math.abs(heapDijkstra.result.totalDistance - scanDijkstra.result.distance) < 1e-6);
+    assert.deepEqual(heapAstar.result.path, scanAstar.result.path);
+    assert.ok(Math.abs(heapAstar.result.totalDistance - scanAstar.result.distance) < 1e-6);
+
+    work.dijkstra += heapDijkstra.operations * siftsPerOperation;
+    work.linearDijkstra += scanDijkstra.result.scanned;
+    work.astar += heapAstar.operations * siftsPerOperation;
+    work.linearAstar += scanAstar.result.scanned;
+    ms.dijkstra += heapDijkstra.ms;
+    ms.linearDijkstra += scanDijkstra.ms;
+    ms.astar += heapAstar.ms;
+    ms.linearAstar += scanAstar.ms;
+  }
+
+  const dijkstraGain = work.linearDijkstra / work.dijkstra;
+  const astarGain = work.linearAstar / work.astar;
+  t.diagnostic(`dijkstra: ${work.dijkstra} vs ${work.linearDijkstra} steps (${dijkstraGain.toFixed(1)}x), ${ms.dijkstra.toFixed(0)} vs ${ms.linearDijkstra.toFixed(0)} ms`);
+  t.diagnostic(`astar: ${work.astar} vs ${work.linearAstar} steps (${astarGain.toFixed(1)}x), ${ms.astar.toFixed(0)} vs ${ms.linearAstar.toFixed(0)} ms`);
+  assert.ok(dijkstraGain > 20, `dijkstra does only ${dijkstraGain.toFixed(1)}x less work`);
+  assert.ok(astarGain > 3, `astar does only ${astarGain.toFixed(1)}x less work`);
+});
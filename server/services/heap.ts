@@ -0,0 +1,112 @@
+interface HeapEntry<K> {
+  key: K;
+  priority: number;
+}
+
+// Binary min-heap that tracks each key's position so its priority can be
+// lowered in O(log n) instead of pushing duplicate entries
+export class IndexedMinHeap<K> {
+  private entries: HeapEntry<K>[] = [];
+  private positions: Map<K, number> = new Map();
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  has(key: K): boolean {
+    return this.positions.has(key);
+  }
+
+  priorityOf(key: K): number | undefined {
+    const index = this.positions.get(key);
+    return index === undefined ? undefined : this.entries[index].priority;
+  }
+
+  peek(): K | undefined {
+    return this.entries[0]?.key;
+  }
+
+  insert(key: K, priority: number): void {
+    if (this.positions.has(key)) {
+      throw new Error(`Key already present in heap: ${String(key)}`);
+    }
+    this.entries.push({ key, priority });
+    this.positions.set(key, this.entries.length - 1);
+    this.siftUp(this.entries.length - 1);
+  }
+
+  decreaseKey(key: K, priority: number): void {
+    const index = this.positions.get(key);
+    if (index === undefined) {
+      throw new Error(`Key not present in heap: ${String(key)}`);
+    }
+    if (priority > this.entries[index].priority) {
+      throw new Error(`New priority ${priority} is greater than current priority for ${String(key)}`);
+    }
+    this.entries[index].priority = priority;
+    this.siftUp(index);
+  }
+
+  // Inserts the key, or lowers its priority if it is already queued.
+  // Returns false when the key is queued with an equal or lower priority.
+  push(key: K, priority: number): boolean {
+    const current = this.priorityOf(key);
+    if (current === undefined) {
+      this.insert(key, priority);
+      return true;
+    }
+    if (priority >= current) return false;
+    this.decreaseKey(key, priority);
+    return true;
+  }
+
+  pop(): K | undefined {
+    if (this.entries.length === 0) return undefined;
+
+    const top = this.entries[0];
+    const last = this.entries.pop()!;
+    this.positions.delete(top.key);
+
+    if (this.entries.length > 0) {
+      this.entries[0] = last;
+      this.positions.set(last.key, 0);
+      this.siftDown(0);
+    }
+
+    return top.key;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.entries[parent].priority <= this.entries[index].priority) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const n = this.entries.length;
+    while (true) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < n && this.entries[left].priority < this.entries[smallest].priority) smallest = left;
+      if (right < n && this.entries[right].priority < this.entries[smallest].priority) smallest = right;
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    const a = this.entries[i];
+    const b = this.entries[j];
+    this.entries[i] = b;
+    this.entries[j] = a;
+    this.positions.set(b.key, i);
+    this.positions.set(a.key, j);
+  }
+}
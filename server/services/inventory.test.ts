@@ -0,0 +1,55 @@
+import "dotenv/config";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+
+const CONCURRENT_HOLDS = 20;
+
+// Runs against the database in DATABASE_URL, on a bucket of its own that is
+// removed afterwards
+test("concurrent holds on the last seat sell it once", {
+  skip: !process.env.DATABASE_URL && "DATABASE_URL is not set",
+}, async (t) => {
+  const { eq, inArray } = await import("drizzle-orm");
+  const { seatHolds, seatInventory } = await import("@shared/schema");
+  const { db, pool } = await import("../db");
+  const { storage } = await import("../storage");
+  t.after(() => pool.end());
+
+  try {
+    await pool.query("select 1");
+  } catch (error: any) {
+    t.skip(`database unreachable: ${error.message}`);
+    return;
+  }
+
+  const leg = { flightId: `test-${randomUUID()}`, departureDate: "2030-01-01", fareClass: "Saver", capacity: 1 };
+  const hold = () => storage.holdSeats([leg], {
+    offerId: randomUUID(),
+    userId: "inventory-test",
+    seats: 1,
+    expiresAt: new Date(Date.now() + 60_000),
+  });
+
+  try {
+    const holds = await Promise.all(Array.from({ length: CONCURRENT_HOLDS }, hold));
+    const granted = holds.filter(held => held !== undefined);
+    assert.equal(granted.length, 1);
+
+    const [bucket] = await db.select().from(seatInventory).where(eq(seatInventory.flightId, leg.flightId));
+    assert.equal(bucket.held, 1);
+    assert.ok(bucket.held + bucket.sold <= bucket.capacity);
+
+    // Selling it does not free it for anyone else
+    assert.ok(await storage.confirmSeatHold(granted[0]!.id));
+    assert.equal(await hold(), undefined);
+    const [sold] = await db.select().from(seatInventory).where(eq(seatInventory.id, bucket.id));
+    assert.deepEqual({ held: sold.held, sold: sold.sold }, { held: 0, sold: 1 });
+  } finally {
+    const buckets = await db.select().from(seatInventory).where(eq(seatInventory.flightId, leg.flightId));
+    await db.delete(seatHolds).where(eq(seatHolds.userId, "inventory-test"));
+    if (buckets.length > 0) {
+      await db.delete(seatInventory).where(inArray(seatInventory.id, buckets.map(bucket => bucket.id)));
+    }
+  }
+});
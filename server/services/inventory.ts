@@ -0,0 +1,89 @@
+import { SeatHold, InsertSeatInventory } from "@shared/schema";
+import { storage } from "../storage";
+import { utcToZonedDate } from "../utils/timezone";
+import type { TimedSegment } from "./graph";
+import type { FareClass } from "./pricing";
+import type { QuotedItinerary } from "./offers";
+
+// Also the time a traveller has to pay for a booking
+export const HOLD_TTL_MS = 15 * 60 * 1000;
+
+// For flights whose aircraft type is missing from the catalog
+export const DEFAULT_SEAT_CAPACITY = 180;
+
+// Share of the cabin sold in each fare class bucket
+const FARE_CLASS_SHARES: Record<FareClass, number> = {
+  Saver: 0.3,
+  Standard: 0.5,
+  Flex: 0.2,
+};
+
+export type SeatHoldFailureReason = "sold_out" | "hold_expired";
+
+// `hold` is null for undated itineraries, which have no flights to hold
+export type SeatHoldResult =
+  | { ok: true; hold: SeatHold | null }
+  | { ok: false; reason: SeatHoldFailureReason };
+
+export const seatHoldFailureResponses: Record<SeatHoldFailureReason, { status: number; message: string }> = {
+  sold_out: { status: 409, message: "Not enough seats left in this fare class" },
+  hold_expired: { status: 409, message: "Seat hold has expired, please try again" },
+};
+
+// Standard takes the seats rounding leaves over
+export function bucketCapacity(seatCapacity: number, fareClass: FareClass): number {
+  if (fareClass === "Standard") {
+    return seatCapacity - bucketCapacity(seatCapacity, "Saver") - bucketCapacity(seatCapacity, "Flex");
+  }
+  return Math.floor(seatCapacity * FARE_CLASS_SHARES[fareClass]);
+}
+
+// Inventory is kept per local departure date at the origin
+export async function departureDateAt(origin: string, departure: string): Promise<string> {
+  const airport = await storage.getAirportByCode(origin);
+  return utcToZonedDate(Date.parse(departure), airport?.timezone ?? "UTC");
+}
+
+function datedLegs(segments: QuotedItinerary["route"]["segments"]): TimedSegment[] {
+  return segments.filter((segment): segment is TimedSegment => "flightId" in segment && "departure" in segment);
+}
+
+// Sets seats aside on every leg for the travellers who need one; infants
+// sit on a lap
+export async function holdSeats(quote: QuotedItinerary, userId: string, now: Date = new Date()): Promise<SeatHoldResult> {
+  const legs = datedLegs(quote.route.segments);
+  if (legs.length === 0) return { ok: true, hold: null };
+
+  // Lapsed holds give their seats back before free seats are counted
+  await storage.releaseExpiredSeatHolds(now);
+
+  const aircraft = new Map((await storage.getAircraftTypes()).map(type => [type.code, type]));
+  const inventory: InsertSeatInventory[] = await Promise.all(legs.map(async (leg) => {
+    const seatCapacity = aircraft.get(leg.aircraftType)?.seatCapacity ?? DEFAULT_SEAT_CAPACITY;
+    return {
+      flightId: leg.flightId,
+      departureDate: await departureDateAt(leg.from, leg.departure),
+      fareClass: quote.class,
+      capacity: bucketCapacity(seatCapacity, quote.class),
+    };
+  }));
+
+  const hold = await storage.holdSeats(inventory, {
+    offerId: quote.offerId,
+    userId,
+    seats: quote.paxMix.adults + quote.paxMix.children,
+    expiresAt: new Date(now.getTime() + HOLD_TTL_MS),
+  });
+  return hold ? { ok: true, hold } : { ok: false, reason: "sold_out" };
+}
+
+export async function confirmSeats(hold: SeatHold | null): Promise<SeatHoldResult> {
+  if (!hold) return { ok: true, hold: null };
+  const confirmed = await storage.confirmSeatHold(hold.id);
+  return confirmed ? { ok: true, hold: confirmed } : { ok: false, reason: "hold_expired" };
+}
+
+// Returns held or sold seats to the bucket, e.g. when a booking fails
+export async function releaseSeats(hold: SeatHold | null): Promise<void> {
+  if (hold) await storage.releaseSeatHold(hold.id);
+}
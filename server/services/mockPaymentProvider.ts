@@ -0,0 +1,195 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { PaymentStatus } from "@shared/schema";
+import type {
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ProviderFailure,
+  ProviderIntent,
+  ProviderIntentResult,
+  ProviderRefundResult,
+} from "./paymentProvider";
+
+const WEBHOOK_SECRET = process.env.MOCK_PAYMENT_WEBHOOK_SECRET || "mock-webhook-secret";
+const WEBHOOK_DELAY_MS = Number(process.env.MOCK_PAYMENT_WEBHOOK_DELAY_MS || 2000);
+
+// Card tokens the mock understands; anything else is declined as invalid
+export const MOCK_PAYMENT_METHODS = {
+  success: "pm_card_success", // authorised straight away
+  declined: "pm_card_declined",
+  challenge: "pm_card_3ds", // needs a 3-D Secure challenge, then a webhook
+  delayed: "pm_card_delayed", // authorised later, by webhook only
+} as const;
+
+export type WebhookListener = (rawBody: string, signature: string | undefined) => Promise<void>;
+
+interface MockIntent {
+  ref: string;
+  amount: number;
+  currency: string;
+  refunded: number;
+  status: PaymentStatus;
+  failureReason: string | null;
+}
+
+// In-memory stand-in for a card gateway, for development. Webhooks are
+// signed like a real provider's and delivered after a delay to the
+// listeners, which hand them to the same handler as the webhook route.
+// Intents do not survive a restart; calls on them fail as unknown.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private intents = new Map<string, MockIntent>();
+  private listeners: WebhookListener[] = [];
+
+  constructor(
+    private readonly secret: string = WEBHOOK_SECRET,
+    private readonly webhookDelayMs: number = WEBHOOK_DELAY_MS
+  ) {}
+
+  onWebhook(listener: WebhookListener): void {
+    this.listeners.push(listener);
+  }
+
+  async createIntent(input: { amount: number; currency: string; reference: string }): Promise<ProviderIntent> {
+    const intent: MockIntent = {
+      ref: `pi_mock_${randomUUID()}`,
+      amount: input.amount,
+      currency: input.currency,
+      refunded: 0,
+      status: "requires_payment_method",
+      failureReason: null,
+    };
+    this.intents.set(intent.ref, intent);
+    return this.toProviderIntent(intent);
+  }
+
+  async authorize(ref: string, paymentMethod: string): Promise<ProviderIntentResult> {
+    const found = this.intentIn(ref, ["requires_payment_method"]);
+    if (!found.ok) return found;
+    const { intent } = found;
+
+    switch (paymentMethod) {
+      case MOCK_PAYMENT_METHODS.success:
+        this.update(intent, "authorized");
+        break;
+      case MOCK_PAYMENT_METHODS.challenge:
+        this.update(intent, "requires_action");
+        break;
+      case MOCK_PAYMENT_METHODS.delayed:
+        this.update(intent, "processing");
+        this.send({ type: "payment.authorized", ref }, () => {
+          if (intent.status === "processing") this.update(intent, "authorized");
+        });
+        break;
+      case MOCK_PAYMENT_METHODS.declined:
+        this.update(intent, "requires_payment_method", "card_declined");
+        break;
+      default:
+        this.update(intent, "requires_payment_method", "invalid_payment_method");
+    }
+    return { ok: true, intent: this.toProviderIntent(intent) };
+  }
+
+  // What the issuer's 3-D Secure page would do; the outcome arrives by
+  // webhook. Undefined for intents not awaiting a challenge.
+  completeChallenge(ref: string, approve: boolean): ProviderIntent | undefined {
+    const intent = this.intents.get(ref);
+    if (!intent || intent.status !== "requires_action") return undefined;
+
+    if (approve) {
+      this.update(intent, "authorized");
+      this.send({ type: "payment.authorized", ref });
+    } else {
+      this.update(intent, "requires_payment_method", "authentication_failed");
+      this.send({ type: "payment.failed", ref, failureReason: "authentication_failed" });
+    }
+    return this.toProviderIntent(intent);
+  }
+
+  async capture(ref: string): Promise<ProviderIntentResult> {
+    const found = this.intentIn(ref, ["authorized", "captured"]);
+    if (!found.ok) return found;
+    const { intent } = found;
+    if (intent.status === "authorized") {
+      this.update(intent, "captured");
+      this.send({ type: "payment.captured", ref });
+    }
+    return { ok: true, intent: this.toProviderIntent(intent) };
+  }
+
+  async cancel(ref: string): Promise<ProviderIntentResult> {
+    const found = this.intentIn(ref, ["requires_payment_method", "processing", "requires_action", "authorized", "cancelled"]);
+    if (!found.ok) return found;
+    this.update(found.intent, "cancelled", found.intent.failureReason);
+    return { ok: true, intent: this.toProviderIntent(found.intent) };
+  }
+
+  async refund(ref: string, amount: number): Promise<ProviderRefundResult> {
+    const found = this.intentIn(ref, ["captured", "refunded"]);
+    if (!found.ok) return found;
+    const { intent } = found;
+    if (amount <= 0 || amount > Number((intent.amount - intent.refunded).toFixed(2))) {
+      return { ok: false, reason: "invalid_amount" };
+    }
+
+    intent.refunded = Number((intent.refunded + amount).toFixed(2));
+    if (intent.refunded >= intent.amount) this.update(intent, "refunded");
+    this.send({ type: "payment.refunded", ref });
+    return { ok: true, refund: { ref: `re_mock_${randomUUID()}`, amount } };
+  }
+
+  parseWebhook(rawBody: string, signature: string | undefined): PaymentWebhookEvent | null {
+    if (!signature) return null;
+    const expected = Buffer.from(this.sign(rawBody));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+    try {
+      return JSON.parse(rawBody) as PaymentWebhookEvent;
+    } catch {
+      return null;
+    }
+  }
+
+  private intentIn(ref: string, statuses: PaymentStatus[]): { ok: true; intent: MockIntent } | ProviderFailure {
+    const intent = this.intents.get(ref);
+    if (!intent) return { ok: false, reason: "unknown_intent" };
+    if (!statuses.includes(intent.status)) return { ok: false, reason: "invalid_state" };
+    return { ok: true, intent };
+  }
+
+  private update(intent: MockIntent, status: PaymentStatus, failureReason: string | null = null): void {
+    intent.status = status;
+    intent.failureReason = failureReason;
+  }
+
+  private toProviderIntent(intent: MockIntent): ProviderIntent {
+    return {
+      ref: intent.ref,
+      status: intent.status,
+      nextAction: intent.status === "requires_action"
+        ? { type: "challenge", url: `/api/payments/mock/challenge/${intent.ref}` }
+        : null,
+      failureReason: intent.failureReason,
+    };
+  }
+
+  private sign(rawBody: string): string {
+    return createHmac("sha256", this.secret).update(rawBody).digest("hex");
+  }
+
+  // `settle` moves the intent to where the event says it is, at the time
+  // the event is delivered
+  private send(event: Omit<PaymentWebhookEvent, "id">, settle?: () => void): void {
+    const rawBody = JSON.stringify({ id: `evt_mock_${randomUUID()}`, ...event });
+    const signature = this.sign(rawBody);
+    const timer = setTimeout(() => {
+      settle?.();
+      for (const listener of this.listeners) {
+        listener(rawBody, signature).catch(err => console.error("Mock payment webhook failed:", err));
+      }
+    }, this.webhookDelayMs);
+    timer.unref();
+  }
+}
+
+export const mockPaymentProvider = new MockPaymentProvider();
@@ -0,0 +1,139 @@
+import { StoredOffer, PaxMix, PassengerType, FareRule } from "@shared/schema";
+import { storage } from "../storage";
+import { RouteResult, routeDeparture } from "./graph";
+import { Offer, FareClass, adultsOnly, paxCount } from "./pricing";
+import { fareRuleFor } from "./fareRules";
+import type { AppliedPriceConfig } from "./priceScheduler";
+
+const OFFER_TTL_MS = 30 * 60 * 1000;
+
+export type OfferUnavailableReason = "not_found" | "expired" | "used";
+
+export type OfferLookup =
+  | { ok: true; offer: StoredOffer }
+  | { ok: false; reason: OfferUnavailableReason };
+
+export const offerUnavailableResponses: Record<OfferUnavailableReason, { status: number; message: string }> = {
+  not_found: { status: 404, message: "Offer not found" },
+  expired: { status: 410, message: "Offer has expired, please search again" },
+  used: { status: 409, message: "Offer has already been booked" },
+};
+
+export interface QuotedItinerary {
+  offerId: string;
+  class: FareClass;
+  route: RouteResult;
+  algorithm: string;
+  pax: number;
+  paxMix: PaxMix;
+  fareBreakdown: Offer["fareBreakdown"];
+  totalFare: number;
+  currency: string;
+  totalFareInr: number;
+  exchangeRate: number;
+  configVersion: number;
+  priceChangeIds: string[];
+  departsAt: Date | null;
+  promoCode: string | null;
+  fareRules: FareRule;
+  expiresAt: Date;
+}
+
+function lookupReason(offer: StoredOffer | undefined): OfferLookup {
+  if (!offer) return { ok: false, reason: "not_found" };
+  if (offer.usedAt) return { ok: false, reason: "used" };
+  if (offer.expiresAt.getTime() <= Date.now()) return { ok: false, reason: "expired" };
+  return { ok: true, offer };
+}
+
+export async function saveQuotedOffers(
+  route: RouteResult,
+  algorithm: string,
+  pax: PaxMix,
+  offers: Offer[],
+  config: AppliedPriceConfig,
+  promoCode: string | null = null
+): Promise<Date> {
+  const expiresAt = new Date(Date.now() + OFFER_TTL_MS);
+
+  await storage.createOffers(offers.map(offer => ({
+    id: offer.offerId,
+    path: route.path,
+    segments: route.segments,
+    totalDistanceKm: route.totalDistance,
+    algorithm,
+    pax: paxCount(pax),
+    paxMix: pax,
+    fareClass: offer.class,
+    fareBreakdown: offer.fareBreakdown,
+    totalFare: offer.totalFare,
+    currency: offer.currency,
+    totalFareInr: offer.totalFareInr,
+    exchangeRate: offer.exchangeRate,
+    configVersion: config.version,
+    priceChangeIds: config.priceChangeIds,
+    departsAt: routeDeparture(route),
+    promoCode,
+    fareRules: offer.fareRules,
+    expiresAt,
+  })));
+
+  return expiresAt;
+}
+
+// Whether the travellers named at booking are exactly the ones the offer
+// was priced for
+export function travellersMatchPaxMix(travellers: Array<{ type: string }>, mix: PaxMix): boolean {
+  const count = (type: PassengerType) => travellers.filter(traveller => traveller.type === type).length;
+  return count("adult") === mix.adults && count("child") === mix.children && count("infant") === mix.infants;
+}
+
+export async function getQuotedOffer(offerId: string): Promise<OfferLookup> {
+  return lookupReason(await storage.getOffer(offerId));
+}
+
+// Claims the offer for a booking. The claim is atomic in storage, so the
+// same offer cannot be booked twice.
+export async function takeQuotedOffer(offerId: string): Promise<OfferLookup> {
+  const claimed = await storage.claimOffer(offerId);
+  if (claimed) return { ok: true, offer: claimed };
+
+  const lookup = lookupReason(await storage.getOffer(offerId));
+  return lookup.ok ? { ok: false, reason: "used" } : lookup;
+}
+
+// Makes an offer bookable again after a booking attempt failed
+export async function releaseQuotedOffer(offerId: string): Promise<void> {
+  await storage.releaseOffer(offerId);
+}
+
+export function toQuotedItinerary(offer: StoredOffer): QuotedItinerary {
+  return {
+    offerId: offer.id,
+    class: offer.fareClass as FareClass,
+    route: {
+      path: offer.path,
+      segments: offer.segments,
+      totalDistance: offer.totalDistanceKm,
+    },
+    algorithm: offer.algorithm,
+    pax: offer.pax,
+    paxMix: offer.paxMix ?? adultsOnly(offer.pax),
+    fareBreakdown: {
+      ...offer.fareBreakdown,
+      lines: offer.fareBreakdown.lines ?? [],
+      passengers: offer.fareBreakdown.passengers ?? [],
+    },
+    totalFare: offer.totalFare,
+    currency: offer.currency,
+    // Offers quoted before conversion were always in INR
+    totalFareInr: offer.totalFareInr ?? offer.totalFare,
+    exchangeRate: offer.exchangeRate,
+    configVersion: offer.configVersion,
+    priceChangeIds: offer.priceChangeIds ?? [],
+    departsAt: offer.departsAt,
+    promoCode: offer.promoCode,
+    fareRules: fareRuleFor(offer.fareClass as FareClass, offer.fareRules),
+    expiresAt: offer.expiresAt,
+  };
+}
@@ -0,0 +1,50 @@
+import type { PaymentNextAction, PaymentStatus } from "@shared/schema";
+
+// A payment intent as the provider sees it
+export interface ProviderIntent {
+  ref: string;
+  status: PaymentStatus;
+  nextAction: PaymentNextAction | null;
+  failureReason: string | null; // why the last attempt failed
+}
+
+export interface ProviderRefund {
+  ref: string;
+  amount: number;
+}
+
+// Why the provider refused a call: it has no such intent, e.g. one it lost,
+// the intent is not in a state the call applies to, or the amount is more
+// than is left to refund
+export type ProviderFailureReason = "unknown_intent" | "invalid_state" | "invalid_amount";
+
+export type ProviderFailure = { ok: false; reason: ProviderFailureReason };
+
+export type ProviderIntentResult = { ok: true; intent: ProviderIntent } | ProviderFailure;
+
+export type ProviderRefundResult = { ok: true; refund: ProviderRefund } | ProviderFailure;
+
+// Sent asynchronously by the provider, e.g. once a 3-D Secure challenge is
+// passed or a delayed authorisation comes through
+export interface PaymentWebhookEvent {
+  id: string;
+  type: "payment.authorized" | "payment.failed" | "payment.captured" | "payment.refunded";
+  ref: string;
+  failureReason?: string;
+}
+
+// A payment gateway. Amounts are in major units of `currency`. The booking
+// flow authorises first and captures only once the seats are secured.
+// Calls the provider refuses come back as failures rather than throwing.
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(input: { amount: number; currency: string; reference: string }): Promise<ProviderIntent>;
+  // `paymentMethod` is the provider's token for the card
+  authorize(ref: string, paymentMethod: string): Promise<ProviderIntentResult>;
+  capture(ref: string): Promise<ProviderIntentResult>;
+  // Voids an authorisation or abandons an intent that was never authorised
+  cancel(ref: string): Promise<ProviderIntentResult>;
+  refund(ref: string, amount: number): Promise<ProviderRefundResult>;
+  // Verifies the signature; null for anything that is not a genuine event
+  parseWebhook(rawBody: string, signature: string | undefined): PaymentWebhookEvent | null;
+}
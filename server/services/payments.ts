@@ -0,0 +1,395 @@
+import { Booking, Payment, PaymentDetails, PaymentStatus } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import type { Clock } from "./demand";
+import { HOLD_TTL_MS } from "./inventory";
+import type { PaymentProvider, ProviderIntent } from "./paymentProvider";
+import { mockPaymentProvider } from "./mockPaymentProvider";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Statuses an intent can be authorised from
+const OPEN_STATUSES: PaymentStatus[] = ["requires_payment_method", "processing", "requires_action"];
+
+// Statuses an intent can be cancelled from without a refund
+const VOIDABLE_STATUSES: PaymentStatus[] = [...OPEN_STATUSES, "authorized"];
+
+export type PaymentFailureReason =
+  | "not_payable"
+  | "payment_due"
+  | "declined"
+  | "hold_expired"
+  | "provider_failed"
+  | "unavailable";
+
+export type PaymentResult =
+  | { ok: true; booking: Booking; payment: Payment }
+  | { ok: false; reason: PaymentFailureReason; payment?: Payment };
+
+export const paymentFailureResponses: Record<PaymentFailureReason, { status: number; message: string }> = {
+  not_payable: { status: 409, message: "Booking is not awaiting payment" },
+  payment_due: { status: 409, message: "The time to pay for this booking has run out, please book again" },
+  declined: { status: 402, message: "Payment was declined" },
+  hold_expired: { status: 409, message: "Seats were released before payment completed, please book again" },
+  provider_failed: { status: 409, message: "The payment provider could not complete the payment; nothing was charged" },
+  unavailable: { status: 409, message: "What was being paid for is no longer available; the payment has been refunded" },
+};
+
+export type BookingUpdateListener = (booking: Booking) => void;
+
+// A charge on an active booking on top of its fare, in the booking's
+// currency
+export interface ChargeRequest {
+  amount: number;
+  amountInr: number;
+  details: PaymentDetails;
+}
+
+// Puts what a charge paid for on the booking once the money is captured,
+// and gives back whatever was set aside for a charge that failed
+export interface ChargeHandler {
+  // False when it can no longer be applied; the charge is then refunded
+  apply(payment: Payment, booking: Booking): Promise<boolean>;
+  release(payment: Payment): Promise<void>;
+}
+
+// Takes pending bookings through payment: authorise, secure the seats,
+// capture, then mark paid and ticketed. Charges on top of the fare, such as
+// itinerary changes and paid seats, are payments of their own that apply
+// once captured. Authorisations that complete later arrive by webhook and
+// continue from the same point. Bookings left unpaid past their due time,
+// and charges never authorised, are given up by a periodic sweep.
+export class PaymentService {
+  private timer: NodeJS.Timeout | null = null;
+  private listeners: BookingUpdateListener[] = [];
+  private readonly providers: Map<string, PaymentProvider>;
+  private readonly handlers = new Map<PaymentDetails["kind"], ChargeHandler>();
+
+  constructor(
+    private readonly source: IStorage,
+    providers: PaymentProvider[],
+    private readonly providerName: string,
+    private readonly clock: Clock = () => new Date()
+  ) {
+    this.providers = new Map(providers.map(provider => [provider.name, provider]));
+    if (!this.providers.has(providerName)) throw new Error(`Unknown payment provider ${providerName}`);
+  }
+
+  // Called whenever a booking's status moves without a request to answer,
+  // e.g. paid by webhook or expired by the sweep
+  onBookingUpdated(listener: BookingUpdateListener): void {
+    this.listeners.push(listener);
+  }
+
+  handleCharges(kind: PaymentDetails["kind"], handler: ChargeHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  // Bookings that fell due while the server was down are expired right away
+  async start(): Promise<void> {
+    this.stop();
+    await this.sweep();
+    this.timer = setInterval(() => {
+      this.sweep().catch(err => console.error("Payment sweep failed:", err));
+    }, SWEEP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Authorises the booking's open intent with the card, creating the intent
+  // on the first attempt. A declined card leaves the intent open for another.
+  async pay(booking: Booking, paymentMethod: string): Promise<PaymentResult> {
+    if (booking.status !== "pending") return { ok: false, reason: "not_payable" };
+    if (booking.paymentDueAt && booking.paymentDueAt.getTime() <= this.clock().getTime()) {
+      await this.expire(booking);
+      return { ok: false, reason: "payment_due" };
+    }
+
+    const [latest] = (await this.source.getBookingPayments(booking.id)).filter(payment => !payment.details);
+    if (latest?.status === "processing" || latest?.status === "authorized") {
+      // Already being authorised; the outcome follows by webhook
+      return { ok: true, booking, payment: latest };
+    }
+    // A challenge the traveller walked away from is dropped for the new card
+    if (latest?.status === "requires_action") await this.void(latest);
+    let payment = latest?.status === "requires_payment_method" ? latest : await this.createPayment(booking);
+
+    let result = await this.provider(payment.provider).authorize(payment.providerRef, paymentMethod);
+    // An open intent the provider no longer has is dropped for a new one
+    if (!result.ok && payment === latest) {
+      await this.void(payment, result.reason);
+      payment = await this.createPayment(booking);
+      result = await this.provider(payment.provider).authorize(payment.providerRef, paymentMethod);
+    }
+    if (!result.ok) {
+      return { ok: false, reason: "provider_failed", payment: await this.void(payment, result.reason) };
+    }
+
+    const { intent } = result;
+    if (intent.status === "authorized") return await this.authorized(payment);
+
+    const updated = await this.source.updatePayment(payment.id, OPEN_STATUSES, this.fromIntent(intent)) ?? payment;
+    if (intent.status === "requires_payment_method") return { ok: false, reason: "declined", payment: updated };
+    return { ok: true, booking, payment: updated };
+  }
+
+  // Charges an active booking with an intent of its own. Unlike the fare, a
+  // declined card ends the charge; a challenge or delayed authorisation
+  // completes by webhook. Nothing is applied before the money is captured.
+  async charge(booking: Booking, request: ChargeRequest, paymentMethod: string): Promise<PaymentResult> {
+    const payment = await this.createPayment(booking, request);
+
+    const result = await this.provider(payment.provider).authorize(payment.providerRef, paymentMethod);
+    if (!result.ok) return await this.chargeFailed(payment, "provider_failed", result.reason);
+
+    const { intent } = result;
+    if (intent.status === "authorized") return await this.authorized(payment);
+    if (intent.status === "requires_payment_method") {
+      return await this.chargeFailed(payment, "declined", intent.failureReason);
+    }
+
+    const updated = await this.source.updatePayment(payment.id, OPEN_STATUSES, this.fromIntent(intent)) ?? payment;
+    return { ok: true, booking, payment: updated };
+  }
+
+  // False when the body is not a genuine event of the provider. Events are
+  // applied once however often they are delivered.
+  async handleWebhook(providerName: string, rawBody: string, signature: string | undefined): Promise<boolean> {
+    const provider = this.providers.get(providerName);
+    const event = provider?.parseWebhook(rawBody, signature);
+    if (!provider || !event) return false;
+
+    const recorded = await this.source.recordPaymentEvent({
+      provider: provider.name,
+      eventId: event.id,
+      type: event.type,
+      providerRef: event.ref,
+      payload: event,
+    });
+    if (!recorded) return true;
+
+    const payment = await this.source.getPaymentByProviderRef(provider.name, event.ref);
+    if (!payment) return true;
+
+    if (event.type === "payment.authorized") {
+      await this.authorized(payment);
+    } else if (event.type === "payment.failed" && payment.details) {
+      if (OPEN_STATUSES.includes(payment.status as PaymentStatus)) {
+        await this.chargeFailed(payment, "declined", event.failureReason ?? "payment_failed");
+      }
+    } else if (event.type === "payment.failed") {
+      await this.source.updatePayment(payment.id, ["processing", "requires_action"], {
+        status: "requires_payment_method",
+        nextAction: null,
+        failureReason: event.failureReason ?? "payment_failed",
+      });
+    }
+    // Captures and refunds are recorded by the calls that made them
+    return true;
+  }
+
+  // What was paid towards the fare through a provider and not refunded yet:
+  // the booking's payment and those of its itinerary changes, oldest first.
+  // Seat fees are ancillaries and are not refunded.
+  async refundablePayments(bookingId: string): Promise<Payment[]> {
+    return (await this.source.getBookingPayments(bookingId))
+      .filter(payment => payment.status === "captured" && payment.details?.kind !== "seat")
+      .filter(payment => payment.amount > payment.amountRefunded)
+      .reverse();
+  }
+
+  // Undefined when the provider refuses the refund, which is then left to
+  // support
+  async refund(payment: Payment, amount: number): Promise<Payment | undefined> {
+    const result = await this.provider(payment.provider).refund(payment.providerRef, amount);
+    if (!result.ok) {
+      console.error(`Refund of ${amount} ${payment.currency} on payment ${payment.id} failed: ${result.reason}`);
+      return undefined;
+    }
+    return await this.source.addPaymentRefund(payment.id, amount);
+  }
+
+  async sweep(): Promise<void> {
+    await this.expireUnpaid();
+    await this.abandonCharges();
+  }
+
+  async expireUnpaid(): Promise<Booking[]> {
+    const due = await this.source.getUnpaidBookingsDue(this.clock());
+    const expired: Booking[] = [];
+    for (const booking of due) {
+      const result = await this.expire(booking);
+      if (result) expired.push(result);
+    }
+    return expired;
+  }
+
+  // Charges still not authorised after as long as a seat hold lasts, e.g. a
+  // challenge nobody answered, are cancelled and what they set aside freed
+  async abandonCharges(): Promise<Payment[]> {
+    const open = await this.source.getOpenChargesBefore(new Date(this.clock().getTime() - HOLD_TTL_MS));
+    const abandoned: Payment[] = [];
+    for (const payment of open) {
+      const result = await this.chargeFailed(payment, "declined", "abandoned");
+      if (result.payment) abandoned.push(result.payment);
+    }
+    return abandoned;
+  }
+
+  private provider(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) throw new Error(`Unknown payment provider ${name}`);
+    return provider;
+  }
+
+  private handler(payment: Payment): ChargeHandler {
+    const handler = payment.details && this.handlers.get(payment.details.kind);
+    if (!handler) throw new Error(`No handler for payment ${payment.id}`);
+    return handler;
+  }
+
+  // For the booking's fare unless a charge is given
+  private async createPayment(booking: Booking, charge?: ChargeRequest): Promise<Payment> {
+    const provider = this.provider(this.providerName);
+    const amount = charge?.amount ?? booking.total;
+    const intent = await provider.createIntent({ amount, currency: booking.currency, reference: booking.pnr });
+    return await this.source.createPayment({
+      bookingId: booking.id,
+      userId: booking.userId,
+      provider: provider.name,
+      providerRef: intent.ref,
+      amount,
+      currency: booking.currency,
+      amountInr: charge?.amountInr ?? booking.totalInr ?? booking.total,
+      details: charge?.details ?? null,
+      ...this.fromIntent(intent),
+    });
+  }
+
+  private fromIntent(intent: ProviderIntent): Pick<Payment, "status" | "nextAction" | "failureReason"> {
+    return { status: intent.status, nextAction: intent.nextAction, failureReason: intent.failureReason };
+  }
+
+  // Only the first of the request and the webhook to see the authorisation
+  // goes on to settle it
+  private async authorized(payment: Payment): Promise<PaymentResult> {
+    const claimed = await this.source.updatePayment(payment.id, OPEN_STATUSES, {
+      status: "authorized",
+      nextAction: null,
+      failureReason: null,
+    });
+    const booking = await this.source.getBooking(payment.bookingId);
+    if (!booking) throw new Error(`Booking ${payment.bookingId} of payment ${payment.id} not found`);
+    if (!claimed) {
+      const current = await this.source.getPaymentByProviderRef(payment.provider, payment.providerRef);
+      return { ok: true, booking, payment: current ?? payment };
+    }
+    return claimed.details ? await this.settleCharge(booking, claimed) : await this.settle(booking, claimed);
+  }
+
+  // Seats are sold before the money is taken, so a lapsed hold only voids
+  // the authorisation. A capture the provider refuses gives the seats back
+  // like a lapsed hold. A booking expired between capture and being marked
+  // paid is refunded in full.
+  private async settle(booking: Booking, payment: Payment): Promise<PaymentResult> {
+    const provider = this.provider(payment.provider);
+
+    if (booking.seatHoldId && !(await this.source.confirmSeatHold(booking.seatHoldId))) {
+      const cancelled = await this.void(payment, "hold_expired");
+      await this.expire(booking);
+      return { ok: false, reason: "hold_expired", payment: cancelled };
+    }
+
+    const capture = await provider.capture(payment.providerRef);
+    if (!capture.ok) {
+      const cancelled = await this.void(payment, capture.reason);
+      await this.expire(booking);
+      return { ok: false, reason: "provider_failed", payment: cancelled };
+    }
+    const captured = await this.source.updatePayment(payment.id, ["authorized"], { status: "captured" }) ?? payment;
+
+    const paid = await this.source.markBookingPaid(booking.id);
+    if (!paid) {
+      const refunded = await this.refund(captured, captured.amount);
+      return { ok: false, reason: "hold_expired", payment: refunded ?? captured };
+    }
+    this.notify(paid);
+
+    const ticketed = await this.source.ticketBooking(booking.id) ?? paid;
+    this.notify(ticketed);
+    return { ok: true, booking: ticketed, payment: captured };
+  }
+
+  // A charge is captured before it is applied, so nothing is given away
+  // unpaid; one that can no longer be applied, e.g. a seat taken in the
+  // meantime, is refunded in full
+  private async settleCharge(booking: Booking, payment: Payment): Promise<PaymentResult> {
+    const capture = await this.provider(payment.provider).capture(payment.providerRef);
+    if (!capture.ok) return await this.chargeFailed(payment, "provider_failed", capture.reason);
+    const captured = await this.source.updatePayment(payment.id, ["authorized"], { status: "captured" }) ?? payment;
+
+    const handler = this.handler(captured);
+    if (!(await handler.apply(captured, booking))) {
+      const refunded = await this.refund(captured, captured.amount);
+      await handler.release(captured);
+      return { ok: false, reason: "unavailable", payment: refunded ?? captured };
+    }
+
+    const updated = await this.source.getBooking(booking.id) ?? booking;
+    this.notify(updated);
+    return { ok: true, booking: updated, payment: captured };
+  }
+
+  // Whoever cancels the charge gives back what it set aside, so that
+  // happens once
+  private async chargeFailed(
+    payment: Payment,
+    reason: PaymentFailureReason,
+    failureReason: string | null
+  ): Promise<PaymentResult> {
+    const cancelled = await this.void(payment, failureReason);
+    if (cancelled) await this.handler(cancelled).release(cancelled);
+    return { ok: false, reason, payment: cancelled ?? payment };
+  }
+
+  // Voids whatever the traveller had started paying with
+  private async expire(booking: Booking): Promise<Booking | undefined> {
+    const expired = await this.source.expireBooking(booking.id);
+    if (!expired) return undefined;
+
+    for (const payment of await this.source.getBookingPayments(booking.id)) {
+      if (VOIDABLE_STATUSES.includes(payment.status as PaymentStatus)) await this.void(payment);
+    }
+    this.notify(expired);
+    return expired;
+  }
+
+  // An intent the provider refuses to cancel, e.g. one it no longer has, is
+  // still given up here
+  private async void(payment: Payment, failureReason: string | null = payment.failureReason): Promise<Payment | undefined> {
+    await this.provider(payment.provider).cancel(payment.providerRef);
+    return await this.source.updatePayment(payment.id, VOIDABLE_STATUSES, {
+      status: "cancelled",
+      nextAction: null,
+      failureReason,
+    });
+  }
+
+  private notify(booking: Booking): void {
+    this.listeners.forEach(listener => listener(booking));
+  }
+}
+
+export const paymentService = new PaymentService(
+  storage,
+  [mockPaymentProvider],
+  process.env.PAYMENT_PROVIDER || mockPaymentProvider.name
+);
+
+// Webhooks of the bundled mock go to the same handler as the webhook route
+mockPaymentProvider.onWebhook(async (rawBody, signature) => {
+  await paymentService.handleWebhook(mockPaymentProvider.name, rawBody, signature);
+});
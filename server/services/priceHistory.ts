@@ -0,0 +1,90 @@
+import {
+  PriceConfig,
+  PriceConfigVersion,
+  DemandCurve,
+  PassengerType,
+  PassengerTypeRule,
+  DEFAULT_PASSENGER_RULES,
+  FareRule,
+  FareRules,
+  DEFAULT_FARE_RULES,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+// Scalar fields carried by every version; the demand curve, passenger rules
+// and fare rules are compared parameter by parameter
+const VERSIONED_FIELDS = ["fuelPricePerLitre", "defaultBurnLPerKm", "taxRate", "feeRate", "baseFare"] as const;
+
+export interface PriceConfigFieldChange {
+  field: string; // e.g. "baseFare", "demandCurve.max" or "passengerRules.infant.fuel"
+  from: number | boolean;
+  to: number | boolean;
+}
+
+export type RollbackFailureReason = "not_found" | "current";
+
+export type RollbackResult =
+  | { ok: true; config: PriceConfig }
+  | { ok: false; reason: RollbackFailureReason };
+
+export const rollbackFailureResponses: Record<RollbackFailureReason, { status: number; message: string }> = {
+  not_found: { status: 404, message: "Price config version not found" },
+  current: { status: 409, message: "That version is already the current config" },
+};
+
+export function diffPriceConfigVersions(from: PriceConfigVersion, to: PriceConfigVersion): PriceConfigFieldChange[] {
+  const changes: PriceConfigFieldChange[] = [];
+
+  for (const field of VERSIONED_FIELDS) {
+    if (from[field] !== to[field]) changes.push({ field, from: from[field], to: to[field] });
+  }
+
+  const curveKeys = Object.keys({ ...from.demandCurve, ...to.demandCurve }) as Array<keyof DemandCurve>;
+  for (const key of curveKeys) {
+    if (from.demandCurve[key] !== to.demandCurve[key]) {
+      changes.push({ field: `demandCurve.${key}`, from: from.demandCurve[key], to: to.demandCurve[key] });
+    }
+  }
+
+  const passengerTypes = Object.keys(DEFAULT_PASSENGER_RULES) as PassengerType[];
+  for (const type of passengerTypes) {
+    for (const key of Object.keys(DEFAULT_PASSENGER_RULES[type]) as Array<keyof PassengerTypeRule>) {
+      const before = from.passengerRules[type][key];
+      const after = to.passengerRules[type][key];
+      if (before !== after) changes.push({ field: `passengerRules.${type}.${key}`, from: before, to: after });
+    }
+  }
+
+  const fareClasses = Object.keys(DEFAULT_FARE_RULES) as Array<keyof FareRules>;
+  for (const fareClass of fareClasses) {
+    for (const key of Object.keys(DEFAULT_FARE_RULES[fareClass]) as Array<keyof FareRule>) {
+      const before = from.fareRules[fareClass][key];
+      const after = to.fareRules[fareClass][key];
+      if (before !== after) changes.push({ field: `fareRules.${fareClass}.${key}`, from: before, to: after });
+    }
+  }
+
+  return changes;
+}
+
+// Rolling back never rewrites history: the old values are saved as a new
+// version that records which version it restores
+export async function rollbackPriceConfig(version: number, authorId: string): Promise<RollbackResult> {
+  const target = await storage.getPriceConfigVersion(version);
+  if (!target) return { ok: false, reason: "not_found" };
+
+  const current = await storage.getPriceConfig();
+  if (current.version === version) return { ok: false, reason: "current" };
+
+  const config = await storage.updatePriceConfig({
+    fuelPricePerLitre: target.fuelPricePerLitre,
+    defaultBurnLPerKm: target.defaultBurnLPerKm,
+    taxRate: target.taxRate,
+    feeRate: target.feeRate,
+    baseFare: target.baseFare,
+    demandCurve: target.demandCurve,
+    passengerRules: target.passengerRules,
+    fareRules: target.fareRules,
+  }, { authorId, rollbackOf: version });
+  return { ok: true, config };
+}
@@ -0,0 +1,114 @@
+import { PriceConfig, ScheduledPriceChange } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import type { Clock } from "./demand";
+
+// setTimeout overflows past ~24.8 days; longer waits re-arm on expiry
+const MAX_TIMER_MS = 2 ** 31 - 1;
+// Wait before trying again after the schedule could not be read or applied
+const RETRY_MS = 30 * 1000;
+
+export type PriceChangeListener = (config: PriceConfig, change: ScheduledPriceChange) => void;
+
+// A config as a fare is priced with: the current version and the pending
+// changes layered over it, which are what set it apart from that version
+export interface AppliedPriceConfig extends PriceConfig {
+  priceChangeIds: string[];
+}
+
+// Pending changes effective by `at` layered over the current config, in
+// effective order. The version stays the current one until activation.
+export function priceConfigAt(config: PriceConfig, pending: ScheduledPriceChange[], at: Date): AppliedPriceConfig {
+  return pending
+    .filter(change => change.effectiveAt.getTime() <= at.getTime())
+    .sort((a, b) => a.effectiveAt.getTime() - b.effectiveAt.getTime())
+    .reduce<AppliedPriceConfig>(
+      (merged, change) => ({
+        ...merged,
+        ...change.changes,
+        priceChangeIds: [...merged.priceChangeIds, change.id],
+      }),
+      { ...config, priceChangeIds: [] }
+    );
+}
+
+// Activates scheduled price changes in-process. One timer is armed for the
+// earliest pending change and re-armed whenever the schedule changes.
+export class PriceScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private listeners: PriceChangeListener[] = [];
+
+  constructor(
+    private readonly source: IStorage,
+    private readonly clock: Clock = () => new Date()
+  ) {}
+
+  onActivated(listener: PriceChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  // Changes that fell due while the server was down are applied right away
+  async start(): Promise<void> {
+    await this.activateDue();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // A schedule that cannot be read is tried again later, so the timer is
+  // never left unarmed while changes may be pending
+  async reschedule(minDelayMs = 0): Promise<void> {
+    this.stop();
+    let next: ScheduledPriceChange | undefined;
+    try {
+      [next] = await this.source.getPendingPriceChanges();
+    } catch (error) {
+      console.error("Reading scheduled price changes failed:", error);
+      this.arm(RETRY_MS);
+      return;
+    }
+    if (!next) return;
+
+    this.arm(Math.max(next.effectiveAt.getTime() - this.clock().getTime(), minDelayMs, 0));
+  }
+
+  // Re-arms whether or not activation succeeded; after a failure the due
+  // changes are retried once RETRY_MS has passed
+  async activateDue(): Promise<void> {
+    let failed = false;
+    try {
+      const now = this.clock().getTime();
+      const due = (await this.source.getPendingPriceChanges())
+        .filter(change => change.effectiveAt.getTime() <= now);
+
+      for (const change of due) {
+        // Another process may have applied or cancelled it in the meantime
+        const config = await this.source.applyScheduledPriceChange(change.id);
+        if (config) this.listeners.forEach(listener => listener(config, change));
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      await this.reschedule(failed ? RETRY_MS : 0);
+    }
+  }
+
+  private arm(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.activateDue().catch(err => console.error("Scheduled price change failed:", err));
+    }, Math.min(delay, MAX_TIMER_MS));
+    this.timer.unref();
+  }
+
+  // The config a fare for travel at `at` is priced with; without a travel
+  // time that is the config in force now
+  async configFor(at: Date | null): Promise<AppliedPriceConfig> {
+    const config = await this.source.getPriceConfig();
+    if (!at) return { ...config, priceChangeIds: [] };
+    return priceConfigAt(config, await this.source.getPendingPriceChanges(), at);
+  }
+}
+
+export const priceScheduler = new PriceScheduler(storage);
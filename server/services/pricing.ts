@@ -1,4 +1,19 @@
-import { PriceConfig } from "@shared/schema";
+import {
+  PriceConfig,
+  AircraftType,
+  AirportCharge,
+  TaxRule,
+  Airport,
+  RouteEdge,
+  FareLine,
+  FareRule,
+  Promotion,
+  PassengerFare,
+  PassengerRules,
+  PassengerTypeRule,
+  PassengerType,
+  PaxMix,
+} from "@shared/schema";
 import { nanoid } from "nanoid";
 
 export interface FareBreakdown {
@@ -7,76 +22,308 @@ export interface FareBreakdown {
   ops: number;
   taxes: number;
   demand: number;
+  lines: FareLine[];
+  passengers: PassengerFare[]; // empty until priced for a fare class
 }
 
+// Reference data fares are priced against, loaded once per request
+export interface PricingContext {
+  aircraft: Map<string, AircraftType>; // by catalog code
+  baseFareOverrides: Map<string, number>; // by directed edge "FROM>TO"
+  airportCharges: Map<string, AirportCharge[]>; // active charges by airport code
+  taxRules: Map<string, TaxRule[]>; // active rules by country
+  airportCountries: Map<string, string>; // by airport code
+}
+
+// A leg to be priced, with the aircraft type code assigned to it, if any
+export interface PricedLeg {
+  from: string;
+  to: string;
+  distanceKm: number;
+  aircraftType?: string | null;
+}
+
+// A promotion already validated for the itinerary being priced
+export type FareDiscount = Pick<Promotion, "code" | "name" | "kind" | "value" | "fareClasses">;
+
+// The fare breakdown is always in INR; totalFare is in `currency`
 export interface Offer {
   offerId: string;
   class: "Saver" | "Standard" | "Flex";
   fareBreakdown: FareBreakdown;
   totalFare: number;
   currency: string;
+  totalFareInr: number;
+  exchangeRate: number; // INR per unit of `currency`
+  fareRules: FareRule; // conditions the class is sold with
 }
 
 function roundToNearest10(value: number): number {
   return Math.round(value / 10) * 10;
 }
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.min(Math.max(value, min), max);
+const FARE_CLASSES = [
+  { name: "Saver", multiplier: 0.95 },
+  { name: "Standard", multiplier: 1.0 },
+  { name: "Flex", multiplier: 1.15 },
+] as const;
+
+export type FareClass = Offer["class"];
+
+const PASSENGER_TYPES: Array<{ type: PassengerType; key: keyof PaxMix }> = [
+  { type: "adult", key: "adults" },
+  { type: "child", key: "children" },
+  { type: "infant", key: "infants" },
+];
+
+export function paxCount(mix: PaxMix): number {
+  return mix.adults + mix.children + mix.infants;
+}
+
+// Offers quoted before passenger types carry only a head count
+export function adultsOnly(pax: number): PaxMix {
+  return { adults: pax, children: 0, infants: 0 };
 }
 
-// Simple demand factor calculation based on route popularity
-// In a real system, this would consider actual booking data
-function calculateDemandFactor(path: string[]): number {
-  // Simulate demand based on route length and common routes
-  const routeKey = path.join("-");
-  const popularRoutes = ["DEL-BOM", "BOM-DEL", "DEL-BLR", "BLR-DEL"];
-  
-  let baseDemand = 1.0;
-  
-  if (popularRoutes.includes(routeKey)) {
-    baseDemand = 1.2; // Higher demand for popular routes
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
   }
-  
-  // Add some randomness to simulate real-time demand
-  const randomFactor = 0.9 + Math.random() * 0.4; // 0.9 to 1.3
-  
-  return clamp(baseDemand * randomFactor, 0.9, 1.5);
+  return groups;
 }
 
-export function generatePriceQuote(
-  path: string[],
-  totalDistanceKm: number,
-  pax: number,
-  config: PriceConfig
-): Offer[] {
-  const base = config.baseFare;
-  const fuelCost = totalDistanceKm * config.defaultBurnLPerKm * config.fuelPricePerLitre;
+export function buildPricingContext(data: {
+  aircraftTypes: AircraftType[];
+  routes: RouteEdge[];
+  airportCharges: AirportCharge[];
+  taxRules: TaxRule[];
+  airports: Airport[];
+}): PricingContext {
+  const baseFareOverrides = new Map<string, number>();
+  for (const route of data.routes) {
+    if (route.baseFareOverride === null) continue;
+    baseFareOverrides.set(`${route.from}>${route.to}`, route.baseFareOverride);
+    if (route.bidirectional) baseFareOverrides.set(`${route.to}>${route.from}`, route.baseFareOverride);
+  }
+
+  return {
+    aircraft: new Map(data.aircraftTypes.map(type => [type.code, type])),
+    baseFareOverrides,
+    airportCharges: groupBy(data.airportCharges.filter(c => c.active), c => c.airportCode),
+    taxRules: groupBy(data.taxRules.filter(r => r.active), r => r.country),
+    airportCountries: new Map(data.airports.map(a => [a.code, a.country])),
+  };
+}
+
+// Burn rate of the band the leg falls into, or the configured default when
+// the leg has no (known) aircraft assigned
+function burnLPerKm(
+  distanceKm: number,
+  aircraftType: string | null | undefined,
+  config: PriceConfig,
+  context: PricingContext
+): number {
+  const aircraft = aircraftType ? context.aircraft.get(aircraftType) : undefined;
+  if (!aircraft || aircraft.burnBands.length === 0) return config.defaultBurnLPerKm;
+
+  const band = aircraft.burnBands.find(b => b.maxDistanceKm === null || distanceKm <= b.maxDistanceKm);
+  return (band ?? aircraft.burnBands[aircraft.burnBands.length - 1]).burnLPerKm;
+}
+
+// Tax rules of the country the itinerary departs from, or the global rate
+// as a single line when that country has none
+function taxRulesFor(origin: string | undefined, config: PriceConfig, context: PricingContext) {
+  const country = origin ? context.airportCountries.get(origin) : undefined;
+  const rules = country ? context.taxRules.get(country) : undefined;
+  if (rules?.length) return rules.map(r => ({ code: r.code, name: r.name, rate: r.rate }));
+  return [{ code: "TAX", name: "Taxes", rate: config.taxRate }];
+}
+
+function airportChargeLines(legs: PricedLeg[], context: PricingContext): FareLine[] {
+  return legs.flatMap(leg => (context.airportCharges.get(leg.from) ?? []).map(charge => ({
+    kind: "airport_charge" as const,
+    code: charge.code,
+    label: `${charge.name} (${charge.airportCode})`,
+    amount: charge.amount,
+  })));
+}
+
+function buildFareBreakdown(
+  legs: PricedLeg[],
+  config: PriceConfig,
+  demand: number,
+  context: PricingContext
+): FareBreakdown {
+  // The itinerary carries the highest base fare of its legs, so an override
+  // on any edge applies to journeys through it
+  const base = legs.length > 0
+    ? Math.max(...legs.map(leg => context.baseFareOverrides.get(`${leg.from}>${leg.to}`) ?? config.baseFare))
+    : config.baseFare;
+  // Fuel is summed leg by leg so each leg uses its own aircraft's burn
+  const fuelLitres = legs.reduce(
+    (sum, leg) => sum + leg.distanceKm * burnLPerKm(leg.distanceKm, leg.aircraftType, config, context),
+    0
+  );
+  const fuelCost = fuelLitres * config.fuelPricePerLitre;
   const ops = config.feeRate * (base + fuelCost);
-  const taxes = config.taxRate * (base + fuelCost + ops);
-  const demand = calculateDemandFactor(path);
-  
-  const fareBreakdown: FareBreakdown = {
+
+  const taxLines: FareLine[] = taxRulesFor(legs[0]?.from, config, context).map(rule => ({
+    kind: "tax",
+    code: rule.code,
+    label: rule.name,
+    amount: rule.rate * (base + fuelCost + ops),
+  }));
+  const taxes = taxLines.reduce((sum, line) => sum + line.amount, 0);
+
+  return {
     base,
     fuelCost,
     ops,
     taxes,
     demand,
+    lines: [...taxLines, ...airportChargeLines(legs, context)],
+    passengers: [],
   };
+}
+
+function sumLines(lines: FareLine[], kind: FareLine["kind"]): number {
+  return lines.filter(line => line.kind === kind).reduce((sum, line) => sum + line.amount, 0);
+}
+
+// Per-passenger fare of a type in a class, before airport charges and
+// discounts. Components the type is exempt from are dropped, and ops and
+// taxes shrink with what is left.
+function passengerCoreFare(fareBreakdown: FareBreakdown, fareClass: FareClass, rule: PassengerTypeRule): number {
+  const { base, fuelCost, ops, taxes, demand } = fareBreakdown;
+  const fuel = rule.fuel ? fuelCost : 0;
+  const typeOps = base + fuelCost > 0 ? ops * (base + fuel) / (base + fuelCost) : 0;
+  const typeTaxes = rule.taxes && base + fuelCost + ops > 0
+    ? taxes * (base + fuel + typeOps) / (base + fuelCost + ops)
+    : 0;
+  const multiplier = FARE_CLASSES.find(c => c.name === fareClass)!.multiplier;
+  return roundToNearest10((base + fuel + typeOps + typeTaxes) * demand * multiplier * rule.fareMultiplier);
+}
 
-  const corePrice = (base + fuelCost + ops + taxes) * demand;
+// Prices every passenger of the mix in a fare class. Airport charges are
+// collected as levied, unaffected by demand, class or discounts. Discounts
+// are taken off each passenger's fare in the order given, percentages from
+// what is left, and never take it below zero; classes a promotion is not
+// valid for get no line for it.
+function priceFareClass(
+  fareBreakdown: FareBreakdown,
+  fareClass: FareClass,
+  pax: PaxMix,
+  rules: PassengerRules,
+  discounts: FareDiscount[]
+): { fareBreakdown: FareBreakdown; totalFare: number } {
+  const charges = sumLines(fareBreakdown.lines, "airport_charge");
+  const groups = PASSENGER_TYPES.filter(({ key }) => pax[key] > 0).map(({ type, key }) => ({
+    type,
+    count: pax[key],
+    core: passengerCoreFare(fareBreakdown, fareClass, rules[type]),
+    charges: rules[type].airportCharges ? charges : 0,
+    discount: 0,
+  }));
 
-  const classes = [
-    { name: "Saver", multiplier: 0.95 },
-    { name: "Standard", multiplier: 1.0 },
-    { name: "Flex", multiplier: 1.15 },
-  ] as const;
+  const discountLines: FareLine[] = [];
+  for (const discount of discounts) {
+    if (discount.fareClasses && !discount.fareClasses.includes(fareClass)) continue;
+    let total = 0;
+    for (const group of groups) {
+      const remaining = group.core + group.discount;
+      const amount = Math.min(
+        remaining,
+        Math.round(discount.kind === "percent" ? remaining * discount.value : discount.value)
+      );
+      group.discount -= amount;
+      total += amount * group.count;
+    }
+    discountLines.push({ kind: "discount", code: discount.code, label: discount.name, amount: -total });
+  }
 
-  return classes.map((fareClass) => ({
-    offerId: nanoid(),
-    class: fareClass.name,
-    fareBreakdown,
-    totalFare: roundToNearest10(corePrice * fareClass.multiplier) * pax,
-    currency: "INR",
+  const passengers: PassengerFare[] = groups.map(group => ({
+    type: group.type,
+    count: group.count,
+    fare: group.core + group.charges,
+    discount: group.discount,
+    total: group.count * (group.core + group.charges + group.discount),
   }));
+
+  return {
+    fareBreakdown: { ...fareBreakdown, lines: [...fareBreakdown.lines, ...discountLines], passengers },
+    totalFare: passengers.reduce((sum, passenger) => sum + passenger.total, 0),
+  };
+}
+
+// Standard-class fare per passenger at neutral demand, split into the part
+// charged once per itinerary and the part charged per leg, so routing can
+// compare itineraries by price before they are quoted. Base fare overrides
+// are not additive per leg and are left out of the estimate.
+export function fareEstimator(
+  config: PriceConfig,
+  context: PricingContext,
+  origin: string
+): { fixed: number; leg(from: string, distanceKm: number, aircraftType: string | null): number } {
+  const taxRate = taxRulesFor(origin, config, context).reduce((sum, rule) => sum + rule.rate, 0);
+  const markup = (1 + config.feeRate) * (1 + taxRate);
+  const charges = (code: string) =>
+    (context.airportCharges.get(code) ?? []).reduce((sum, charge) => sum + charge.amount, 0);
+
+  return {
+    fixed: config.baseFare * markup,
+    leg: (from, distanceKm, aircraftType) =>
+      distanceKm * burnLPerKm(distanceKm, aircraftType, config, context) * config.fuelPricePerLitre * markup +
+      charges(from),
+  };
+}
+
+// `demand` comes from the demand service (see ./demand)
+export function generatePriceQuote(
+  legs: PricedLeg[],
+  pax: PaxMix,
+  config: PriceConfig,
+  context: PricingContext,
+  demand: number,
+  discounts: FareDiscount[] = []
+): Offer[] {
+  const fareBreakdown = buildFareBreakdown(legs, config, demand, context);
+
+  // Priced in INR; see ./currency for conversion
+  return FARE_CLASSES.map((fareClass) => {
+    const priced = priceFareClass(fareBreakdown, fareClass.name, pax, config.passengerRules, discounts);
+    return {
+      offerId: nanoid(),
+      class: fareClass.name,
+      fareBreakdown: priced.fareBreakdown,
+      totalFare: priced.totalFare,
+      currency: "INR",
+      totalFareInr: priced.totalFare,
+      exchangeRate: 1,
+      fareRules: config.fareRules[fareClass.name],
+    };
+  });
+}
+
+// Recomputes the fare for a previously quoted itinerary against the given
+// config. The demand factor captured at quote time is kept so the traveller
+// is not re-rolled into a different demand bucket between quote and booking.
+export function repriceOffer(
+  quote: { class: FareClass; legs: PricedLeg[]; pax: PaxMix; demand: number; discounts?: FareDiscount[] },
+  config: PriceConfig,
+  context: PricingContext
+): { fareBreakdown: FareBreakdown; totalFare: number } {
+  return priceFareClass(
+    buildFareBreakdown(quote.legs, config, quote.demand, context),
+    quote.class,
+    quote.pax,
+    config.passengerRules,
+    quote.discounts ?? []
+  );
+}
+
+// What the travellers pay before promotions, which are re-validated at
+// booking and may differ from the quote's without the fare having changed
+export function fareBeforeDiscounts(fareBreakdown: { passengers?: PassengerFare[] }): number {
+  return (fareBreakdown.passengers ?? []).reduce((sum, passenger) => sum + passenger.count * passenger.fare, 0);
 }
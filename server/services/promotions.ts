@@ -0,0 +1,114 @@
+import { Promotion, FareLine } from "@shared/schema";
+import { storage } from "../storage";
+import { FareClass } from "./pricing";
+
+export type PromotionFailureReason =
+  | "not_found"
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "exhausted"
+  | "route"
+  | "fare_class"
+  | "not_stackable";
+
+export type PromotionLookup =
+  | { ok: true; promotions: Promotion[] }
+  | { ok: false; reason: PromotionFailureReason; code: string };
+
+export const promotionFailureResponses: Record<PromotionFailureReason, { status: number; message: string }> = {
+  not_found: { status: 404, message: "Promo code not found" },
+  inactive: { status: 410, message: "Promo code is no longer available" },
+  not_started: { status: 400, message: "Promo code is not valid yet" },
+  expired: { status: 410, message: "Promo code has expired" },
+  exhausted: { status: 409, message: "Promo code has been fully redeemed" },
+  route: { status: 400, message: "Promo code does not apply to this route" },
+  fare_class: { status: 400, message: "Promo code does not apply to this fare class" },
+  not_stackable: { status: 400, message: "Promo code cannot be combined with other codes" },
+};
+
+// What a promotion is checked against. Fare classes are only known once an
+// offer is chosen; a quote prices every class and skips the ineligible ones.
+export interface PromotionTarget {
+  origin: string;
+  destination: string;
+  fareClass?: FareClass;
+}
+
+// Several codes may be entered comma-separated; codes are case-insensitive
+export function parsePromoCodes(input: string | null | undefined): string[] {
+  if (!input) return [];
+  const codes = input.split(",").map(code => code.trim().toUpperCase()).filter(Boolean);
+  return Array.from(new Set(codes));
+}
+
+function checkPromotion(promotion: Promotion, target: PromotionTarget, now: Date): PromotionFailureReason | null {
+  if (!promotion.active) return "inactive";
+  if (promotion.validFrom && promotion.validFrom > now) return "not_started";
+  if (promotion.validUntil && promotion.validUntil <= now) return "expired";
+  if (promotion.maxRedemptions !== null && promotion.redemptionCount >= promotion.maxRedemptions) return "exhausted";
+  if (promotion.origin && promotion.origin !== target.origin) return "route";
+  if (promotion.destination && promotion.destination !== target.destination) return "route";
+  if (target.fareClass && promotion.fareClasses && !promotion.fareClasses.includes(target.fareClass)) {
+    return "fare_class";
+  }
+  return null;
+}
+
+// Promotions for the entered codes, in the order entered. An exclusive
+// promotion must be the only code.
+export async function resolvePromotions(
+  codes: string[],
+  target: PromotionTarget,
+  now: Date = new Date()
+): Promise<PromotionLookup> {
+  const found = await storage.getPromotionsByCodes(codes);
+  const promotions: Promotion[] = [];
+
+  for (const code of codes) {
+    const promotion = found.find(p => p.code === code);
+    if (!promotion) return { ok: false, reason: "not_found", code };
+
+    const reason = checkPromotion(promotion, target, now);
+    if (reason) return { ok: false, reason, code };
+    if (codes.length > 1 && !promotion.stackable) return { ok: false, reason: "not_stackable", code };
+    promotions.push(promotion);
+  }
+
+  return { ok: true, promotions };
+}
+
+// Takes one redemption of each promotion, or none: claims already taken
+// are handed back if a later one has run out
+export async function claimPromotions(promotions: Promotion[]): Promise<PromotionLookup> {
+  const claimed: Promotion[] = [];
+  for (const promotion of promotions) {
+    const taken = await storage.claimPromotion(promotion.id);
+    if (!taken) {
+      await releasePromotions(claimed);
+      return { ok: false, reason: "exhausted", code: promotion.code };
+    }
+    claimed.push(taken);
+  }
+  return { ok: true, promotions: claimed };
+}
+
+export async function releasePromotions(promotions: Promotion[]): Promise<void> {
+  await Promise.all(promotions.map(promotion => storage.releasePromotion(promotion.id)));
+}
+
+// Records what each promotion took off a booking, from its discount lines
+export async function recordRedemptions(
+  promotions: Promotion[],
+  booking: { id: string; userId: string },
+  lines: FareLine[]
+): Promise<void> {
+  await storage.createPromotionRedemptions(promotions.map(promotion => ({
+    promotionId: promotion.id,
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount: -lines
+      .filter(line => line.kind === "discount" && line.code === promotion.code)
+      .reduce((sum, line) => sum + line.amount, 0),
+  })));
+}
@@ -0,0 +1,72 @@
+import { storage, type IStorage, type NetworkChange } from "../storage";
+import { Graph } from "./graph";
+
+// Changes made by other processes (e.g. the seed script) are not observed,
+// so the cached graph is rebuilt from the database at least this often
+const MAX_GRAPH_AGE_MS = 5 * 60 * 1000;
+
+// Long-lived route graph. Built once from storage, then patched in place as
+// airports and route edges are written through the same storage instance.
+export class RouteGraphService {
+  private graph: Graph | null = null;
+  private builtAt = 0;
+  private building: Promise<Graph> | null = null;
+  // Bumped on every change so a build that raced a write is not cached
+  private generation = 0;
+
+  constructor(private readonly storage: IStorage) {
+    storage.onNetworkChange(change => this.applyChange(change));
+  }
+
+  async getGraph(): Promise<Graph> {
+    if (this.graph && Date.now() - this.builtAt < MAX_GRAPH_AGE_MS) {
+      return this.graph;
+    }
+    if (!this.building) {
+      this.building = this.build().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  invalidate(): void {
+    this.graph = null;
+    this.generation++;
+  }
+
+  private async build(): Promise<Graph> {
+    const generation = this.generation;
+    const [airports, routes] = await Promise.all([
+      this.storage.getAllAirports(),
+      this.storage.getActiveRoutes(),
+    ]);
+    const graph = new Graph(airports, routes);
+
+    if (generation === this.generation) {
+      this.graph = graph;
+      this.builtAt = Date.now();
+    }
+    return graph;
+  }
+
+  private applyChange(change: NetworkChange): void {
+    this.generation++;
+    if (!this.graph) return;
+
+    switch (change.type) {
+      case "airport:created":
+        this.graph.addAirport(change.airport);
+        break;
+      case "route:created":
+        this.graph.addRoute(change.route);
+        break;
+      case "route:updated":
+        this.graph.removeRoute(change.route.id);
+        this.graph.addRoute(change.route);
+        break;
+    }
+  }
+}
+
+export const routeGraph = new RouteGraphService(storage);
@@ -0,0 +1,222 @@
+import {
+  ACTIVE_BOOKING_STATUSES,
+  AircraftType,
+  AssignSeatInput,
+  Booking,
+  BookingStatus,
+  FareRule,
+  FlightWithRoute,
+  Payment,
+  SeatAssignment,
+  SeatLayout,
+  SeatPaymentDetails,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { isoWeekday } from "../utils/timezone";
+import { convertFromInr } from "./currency";
+import { fareRuleFor } from "./fareRules";
+import { DEFAULT_SEAT_CAPACITY, departureDateAt } from "./inventory";
+import type { FareClass } from "./pricing";
+
+const DEFAULT_SEAT_FEE = 250;
+const DEFAULT_EXTRA_LEGROOM_FEE = 800;
+
+export type SeatStatus = "available" | "occupied" | "blocked";
+
+export interface SeatMapSeat {
+  seat: string; // e.g. "12A"
+  row: number;
+  column: string;
+  cabin: string;
+  extraLegroom: boolean;
+  fee: number; // INR, before the fare's free seat selection is applied
+  status: SeatStatus;
+}
+
+export interface SeatMap {
+  flightId: string;
+  flightNumber: string;
+  aircraftType: string;
+  departureDate: string;
+  cabins: SeatLayout["cabins"];
+  seats: SeatMapSeat[];
+}
+
+export type SeatAssignmentFailureReason = "cancelled" | "passenger" | "infant" | "segment" | "seat" | "blocked" | "taken" | "payment_required";
+
+export type SeatAssignmentResult =
+  | { ok: true; assignment: SeatAssignment; replaced?: SeatAssignment }
+  | { ok: false; reason: SeatAssignmentFailureReason };
+
+// A seat checked and priced for a traveller, not yet theirs
+export type SelectedSeat = Omit<SeatPaymentDetails, "assignmentId">;
+
+export type SeatSelection =
+  | { ok: true; selection: SelectedSeat }
+  | { ok: false; reason: SeatAssignmentFailureReason };
+
+export const seatAssignmentFailureResponses: Record<SeatAssignmentFailureReason, { status: number; message: string }> = {
+  cancelled: { status: 409, message: "Seats cannot be chosen on a cancelled booking" },
+  passenger: { status: 404, message: "Passenger not found on this booking" },
+  infant: { status: 400, message: "Infants travel on a lap and have no seat" },
+  segment: { status: 400, message: "Seats can only be chosen on scheduled flights of this booking" },
+  seat: { status: 400, message: "No such seat on this aircraft" },
+  blocked: { status: 409, message: "Seat is not available" },
+  taken: { status: 409, message: "Seat has already been taken" },
+  payment_required: { status: 402, message: "This seat has a fee; a payment method is required" },
+};
+
+// One economy cabin, four abreast up to 100 seats and six above; seats the
+// last row has beyond the capacity are blocked
+export function defaultSeatLayout(seatCapacity: number): SeatLayout {
+  const columns = seatCapacity <= 100 ? "AC DF" : "ABC DEF";
+  const letters = columns.replace(/ /g, "");
+  const rows = Math.ceil(seatCapacity / letters.length);
+  const spare = rows * letters.length - seatCapacity;
+
+  return {
+    cabins: [{ name: "Economy", firstRow: 1, lastRow: rows, columns }],
+    exitRows: [],
+    blockedSeats: letters.split("").slice(letters.length - spare).map(letter => `${rows}${letter}`),
+    seatFee: DEFAULT_SEAT_FEE,
+    extraLegroomFee: DEFAULT_EXTRA_LEGROOM_FEE,
+  };
+}
+
+export function seatLayoutFor(aircraft: AircraftType | undefined): SeatLayout {
+  return aircraft?.seatLayout ?? defaultSeatLayout(aircraft?.seatCapacity ?? DEFAULT_SEAT_CAPACITY);
+}
+
+// Every seat of the layout, front to back and left to right
+function layoutSeats(layout: SeatLayout): Array<Omit<SeatMapSeat, "status">> {
+  const seats: Array<Omit<SeatMapSeat, "status">> = [];
+  for (const cabin of layout.cabins) {
+    for (let row = cabin.firstRow; row <= cabin.lastRow; row++) {
+      const extraLegroom = layout.exitRows.includes(row);
+      for (const column of cabin.columns.replace(/ /g, "")) {
+        seats.push({
+          seat: `${row}${column}`,
+          row,
+          column,
+          cabin: cabin.name,
+          extraLegroom,
+          fee: extraLegroom ? layout.extraLegroomFee : layout.seatFee,
+        });
+      }
+    }
+  }
+  return seats;
+}
+
+export function operatesOn(flight: FlightWithRoute, departureDate: string): boolean {
+  return flight.daysOfOperation.includes(isoWeekday(departureDate));
+}
+
+export async function getSeatMap(flight: FlightWithRoute, departureDate: string): Promise<SeatMap> {
+  const aircraft = (await storage.getAircraftTypes()).find(type => type.code === flight.aircraftType);
+  const layout = seatLayoutFor(aircraft);
+  const taken = new Set((await storage.getSeatAssignments(flight.id, departureDate)).map(a => a.seat));
+
+  return {
+    flightId: flight.id,
+    flightNumber: flight.flightNumber,
+    aircraftType: flight.aircraftType,
+    departureDate,
+    cabins: layout.cabins,
+    seats: layoutSeats(layout).map(seat => ({
+      ...seat,
+      status: layout.blockedSeats.includes(seat.seat) ? "blocked" : taken.has(seat.seat) ? "occupied" : "available",
+    })),
+  };
+}
+
+// Free seat selection covers standard seats; extra legroom is always charged
+export function seatFeeFor(seat: Pick<SeatMapSeat, "fee" | "extraLegroom">, rule: FareRule): number {
+  return rule.freeSeatSelection && !seat.extraLegroom ? 0 : seat.fee;
+}
+
+// Checks the seat a traveller chose on one flight of their booking and
+// prices it as an ancillary, in the booking's currency at the rate it was
+// booked at. A seat with a fee is held while the fee is paid and only
+// assigned once it is captured.
+export async function selectSeat(booking: Booking, input: AssignSeatInput): Promise<SeatSelection> {
+  if (!ACTIVE_BOOKING_STATUSES.includes(booking.status as BookingStatus)) return { ok: false, reason: "cancelled" };
+
+  const passenger = (await storage.getBookingPassengers(booking.id)).find(p => p.id === input.passengerId);
+  if (!passenger) return { ok: false, reason: "passenger" };
+  if (passenger.type === "infant") return { ok: false, reason: "infant" };
+
+  const segment = booking.segments?.[input.segment];
+  const flight = segment?.flightId && segment.departure ? await storage.getFlight(segment.flightId) : undefined;
+  if (!segment?.departure || !flight) return { ok: false, reason: "segment" };
+
+  const departureDate = await departureDateAt(segment.from, segment.departure);
+  const seat = (await getSeatMap(flight, departureDate)).seats.find(s => s.seat === input.seat);
+  if (!seat) return { ok: false, reason: "seat" };
+  if (seat.status === "blocked") return { ok: false, reason: "blocked" };
+
+  const feeInr = seatFeeFor(seat, fareRuleFor(booking.fareClass as FareClass, booking.fareRules));
+  return {
+    ok: true,
+    selection: {
+      kind: "seat",
+      passengerId: passenger.id,
+      flightId: flight.id,
+      departureDate,
+      seat: seat.seat,
+      fee: convertFromInr(feeInr, { currency: booking.currency, inrPerUnit: booking.exchangeRate, roundingIncrement: 0.01 }),
+      feeInr,
+    },
+  };
+}
+
+function seatAssignmentFor(booking: Booking, selection: SelectedSeat) {
+  return {
+    bookingId: booking.id,
+    passengerId: selection.passengerId,
+    flightId: selection.flightId,
+    departureDate: selection.departureDate,
+    seat: selection.seat,
+    fee: selection.fee,
+    feeInr: selection.feeInr,
+  };
+}
+
+// Gives the traveller the selected seat, in place of any they had on that
+// flight
+export async function assignSeat(booking: Booking, selection: SelectedSeat): Promise<SeatAssignmentResult> {
+  try {
+    const { assignment, replaced } = await storage.assignSeat(seatAssignmentFor(booking, selection));
+    return { ok: true, assignment, replaced };
+  } catch (error: any) {
+    // Taken by another traveller, possibly a moment ago
+    if (error.code === "23505") return { ok: false, reason: "taken" };
+    throw error;
+  }
+}
+
+// Sets a seat with a fee aside for the traveller while they pay for it
+export async function holdSeat(booking: Booking, selection: SelectedSeat): Promise<SeatAssignmentResult> {
+  try {
+    return { ok: true, assignment: await storage.holdSeatAssignment(seatAssignmentFor(booking, selection)) };
+  } catch (error: any) {
+    if (error.code === "23505") return { ok: false, reason: "taken" };
+    throw error;
+  }
+}
+
+// Assigns the held seat once its fee has been captured, unless the booking
+// was cancelled or the hold released while it was being paid for
+export async function applySeatPayment(payment: Payment, booking: Booking): Promise<SeatAssignmentResult> {
+  if (payment.details?.kind !== "seat") throw new Error(`Payment ${payment.id} is not for a seat`);
+  if (!ACTIVE_BOOKING_STATUSES.includes(booking.status as BookingStatus)) return { ok: false, reason: "cancelled" };
+  const confirmed = await storage.confirmSeatAssignment(payment.details.assignmentId);
+  return confirmed ? { ok: true, ...confirmed } : { ok: false, reason: "taken" };
+}
+
+// Gives back the seat held for a fee that was not paid; undefined when
+// there is nothing left to release
+export async function releaseSeatPayment(payment: Payment): Promise<SeatAssignment | undefined> {
+  if (payment.details?.kind !== "seat") throw new Error(`Payment ${payment.id} is not for a seat`);
+  return await storage.releaseSeatAssignment(payment.details.assignmentId);
+}
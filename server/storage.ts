@@ -1,22 +1,122 @@
 import {
   users,
+  refreshTokens,
   airports,
   routeEdges,
+  flights,
+  aircraftTypes,
+  airportCharges,
+  taxRules,
+  offers,
   bookings,
   priceConfig,
+  priceConfigVersions,
+  scheduledPriceChanges,
+  promotions,
+  promotionRedemptions,
+  passengers,
+  exchangeRates,
+  seatInventory,
+  seatHolds,
+  seatAssignments,
+  refunds,
+  bookingItineraries,
+  payments,
+  paymentEvents,
+  ACTIVE_BOOKING_STATUSES,
   type User,
   type InsertUser,
+  type RefreshToken,
+  type InsertRefreshToken,
   type Airport,
   type InsertAirport,
   type RouteEdge,
   type InsertRouteEdge,
+  type Flight,
+  type InsertFlight,
+  type FlightWithRoute,
+  type AircraftType,
+  type InsertAircraftType,
+  type AirportCharge,
+  type InsertAirportCharge,
+  type TaxRule,
+  type InsertTaxRule,
+  type StoredOffer,
+  type InsertStoredOffer,
   type Booking,
   type InsertBooking,
   type PriceConfig,
   type InsertPriceConfig,
+  type PriceConfigVersion,
+  type PriceConfigVersionWithAuthor,
+  type ScheduledPriceChange,
+  type InsertScheduledPriceChange,
+  type Promotion,
+  type InsertPromotion,
+  type InsertPromotionRedemption,
+  type Passenger,
+  type InsertPassenger,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type InsertSeatInventory,
+  type SeatAssignment,
+  type InsertSeatAssignment,
+  type SeatHold,
+  type InsertSeatHold,
+  type BookingStatus,
+  type Refund,
+  type InsertRefund,
+  type BookingItinerary,
+  type InsertBookingItinerary,
+  type Payment,
+  type InsertPayment,
+  type PaymentStatus,
+  type InsertPaymentEvent,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, desc, gt, inArray, isNotNull, isNull, or, lt, lte, sql, TransactionRollbackError } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type NetworkChange =
+  | { type: "airport:created"; airport: Airport }
+  | { type: "route:created"; route: RouteEdge }
+  | { type: "route:updated"; route: RouteEdge };
+
+export type NetworkChangeListener = (change: NetworkChange) => void;
+
+// Who made a price config change, and which version it restores if it is
+// a rollback
+export interface PriceConfigChange {
+  authorId: string | null;
+  rollbackOf?: number;
+}
+
+// What a cancellation wrote and gave back: the refunds, one per payment
+// the money goes back to, and the seats its travellers no longer occupy
+export interface BookingCancellation {
+  booking: Booking;
+  refunds: Refund[];
+  releasedSeats: SeatAssignment[];
+}
+
+// The itinerary a change puts on a booking; passengers and currency stay
+export type ItineraryUpdate = Pick<
+  InsertBooking,
+  "path" | "segments" | "fareBreakdown" | "total" | "totalInr" | "fareClass" | "configVersion" | "priceChangeIds" | "fareRules" | "departsAt" | "seatHoldId"
+>;
+
+// What the change cost, recorded with the itinerary it replaced
+export type ItineraryChangeCharge = Pick<
+  InsertBookingItinerary,
+  "fareDifference" | "changeFee" | "charged" | "chargedInr" | "changedBy"
+>;
+
+export interface BookingChange {
+  booking: Booking;
+  previous: BookingItinerary;
+  releasedSeats: SeatAssignment[];
+}
 
 export interface IStorage {
   // User operations
@@ -24,6 +124,13 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
+  // Refresh token operations
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  consumeRefreshToken(id: string, replacedBy: string): Promise<RefreshToken | undefined>;
+  revokeRefreshTokenFamily(familyId: string): Promise<void>;
+  revokeUserRefreshTokens(userId: string): Promise<void>;
+
   // Airport operations
   getAllAirports(): Promise<Airport[]>;
   getAirportByCode(code: string): Promise<Airport | undefined>;
@@ -33,18 +140,137 @@ export interface IStorage {
   getAllRoutes(): Promise<RouteEdge[]>;
   getActiveRoutes(): Promise<RouteEdge[]>;
   createRoute(route: InsertRouteEdge): Promise<RouteEdge>;
+  updateRoute(id: string, route: Partial<InsertRouteEdge>): Promise<RouteEdge | undefined>;
+
+  // Flight schedule operations
+  getActiveFlights(): Promise<FlightWithRoute[]>;
+  getFlight(id: string): Promise<FlightWithRoute | undefined>;
+  createFlight(flight: InsertFlight): Promise<Flight>;
+  updateFlight(id: string, flight: Partial<InsertFlight>): Promise<Flight | undefined>;
+
+  // Aircraft type catalog operations
+  getAircraftTypes(): Promise<AircraftType[]>;
+  createAircraftType(aircraftType: InsertAircraftType): Promise<AircraftType>;
+  updateAircraftType(id: string, aircraftType: Partial<InsertAircraftType>): Promise<AircraftType | undefined>;
+  deleteAircraftType(id: string): Promise<AircraftType | undefined>;
+  isAircraftTypeAssigned(code: string): Promise<boolean>;
+
+  // Airport charge and tax rule operations
+  getAirportCharges(): Promise<AirportCharge[]>;
+  createAirportCharge(charge: InsertAirportCharge): Promise<AirportCharge>;
+  deleteAirportCharge(id: string): Promise<AirportCharge | undefined>;
+  getTaxRules(): Promise<TaxRule[]>;
+  createTaxRule(rule: InsertTaxRule): Promise<TaxRule>;
+  deleteTaxRule(id: string): Promise<TaxRule | undefined>;
+
+  // Notified after airports or route edges are written through this storage
+  onNetworkChange(listener: NetworkChangeListener): void;
+
+  // Offer operations
+  createOffers(offers: InsertStoredOffer[]): Promise<StoredOffer[]>;
+  getOffer(offerId: string): Promise<StoredOffer | undefined>;
+  claimOffer(offerId: string): Promise<StoredOffer | undefined>;
+  releaseOffer(offerId: string): Promise<void>;
 
   // Booking operations
   getUserBookings(userId: string): Promise<Booking[]>;
-  createBooking(booking: InsertBooking): Promise<Booking>;
+  createBooking(booking: InsertBooking, passengers: Omit<InsertPassenger, "bookingId">[]): Promise<Booking>;
   getBookingByPnr(pnr: string): Promise<Booking | undefined>;
+  getBookingPassengers(bookingId: string): Promise<Passenger[]>;
+  getBookingPathsSince(since: Date): Promise<string[][]>;
+  cancelBooking(
+    id: string,
+    status: Extract<BookingStatus, "cancelled" | "refunded">,
+    entries: Omit<InsertRefund, "bookingId" | "userId">[]
+  ): Promise<BookingCancellation | undefined>;
+  changeBooking(booking: Booking, itinerary: ItineraryUpdate, charge: ItineraryChangeCharge): Promise<BookingChange | undefined>;
+  getBookingItineraries(bookingId: string): Promise<BookingItinerary[]>;
+  getBooking(id: string): Promise<Booking | undefined>;
+  markBookingPaid(id: string): Promise<Booking | undefined>;
+  ticketBooking(id: string): Promise<Booking | undefined>;
+  getUnpaidBookingsDue(now: Date): Promise<Booking[]>;
+  expireBooking(id: string): Promise<Booking | undefined>;
+
+  // Payment operations
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  getBookingPayments(bookingId: string): Promise<Payment[]>;
+  getPaymentByProviderRef(provider: string, providerRef: string): Promise<Payment | undefined>;
+  updatePayment(id: string, from: PaymentStatus[], changes: Partial<InsertPayment>): Promise<Payment | undefined>;
+  addPaymentRefund(id: string, amount: number): Promise<Payment | undefined>;
+  getOpenChargesBefore(before: Date): Promise<Payment[]>;
+  recordPaymentEvent(event: InsertPaymentEvent): Promise<boolean>;
+
+  // Seat inventory operations
+  holdSeats(legs: InsertSeatInventory[], hold: Omit<InsertSeatHold, "inventoryIds">): Promise<SeatHold | undefined>;
+  confirmSeatHold(id: string): Promise<SeatHold | undefined>;
+  releaseSeatHold(id: string): Promise<SeatHold | undefined>;
+  releaseExpiredSeatHolds(now: Date): Promise<SeatHold[]>;
+  getSegmentInventory(from: string, to: string, departureDate: string): Promise<{ capacity: number; remaining: number } | undefined>;
+
+  // Seat assignment operations
+  getSeatAssignments(flightId: string, departureDate: string): Promise<SeatAssignment[]>;
+  getBookingSeatAssignments(bookingId: string): Promise<SeatAssignment[]>;
+  assignSeat(assignment: InsertSeatAssignment): Promise<{ assignment: SeatAssignment; replaced?: SeatAssignment }>;
+  holdSeatAssignment(assignment: InsertSeatAssignment): Promise<SeatAssignment>;
+  confirmSeatAssignment(id: string): Promise<{ assignment: SeatAssignment; replaced?: SeatAssignment } | undefined>;
+  releaseSeatAssignment(id: string): Promise<SeatAssignment | undefined>;
+
+  // Exchange rate operations
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  getExchangeRate(currency: string): Promise<ExchangeRate | undefined>;
+  upsertExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(currency: string): Promise<ExchangeRate | undefined>;
+
+  // Promotion operations
+  getPromotions(): Promise<Promotion[]>;
+  getPromotionsByCodes(codes: string[]): Promise<Promotion[]>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: string, promotion: Partial<InsertPromotion>): Promise<Promotion | undefined>;
+  claimPromotion(id: string): Promise<Promotion | undefined>;
+  releasePromotion(id: string): Promise<void>;
+  createPromotionRedemptions(redemptions: InsertPromotionRedemption[]): Promise<void>;
 
   // Price config operations
   getPriceConfig(): Promise<PriceConfig>;
-  updatePriceConfig(config: Partial<InsertPriceConfig>): Promise<PriceConfig>;
+  updatePriceConfig(config: Partial<InsertPriceConfig>, change: PriceConfigChange): Promise<PriceConfig>;
+  getPriceConfigVersions(): Promise<PriceConfigVersionWithAuthor[]>;
+  getPriceConfigVersion(version: number): Promise<PriceConfigVersion | undefined>;
+
+  // Scheduled price config changes
+  createScheduledPriceChange(change: InsertScheduledPriceChange): Promise<ScheduledPriceChange>;
+  getScheduledPriceChanges(): Promise<ScheduledPriceChange[]>;
+  getPendingPriceChanges(): Promise<ScheduledPriceChange[]>;
+  cancelScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined>;
+  applyScheduledPriceChange(id: string): Promise<PriceConfig | undefined>;
+}
+
+function versionSnapshot(config: PriceConfig, change: PriceConfigChange) {
+  return {
+    version: config.version,
+    fuelPricePerLitre: config.fuelPricePerLitre,
+    defaultBurnLPerKm: config.defaultBurnLPerKm,
+    taxRate: config.taxRate,
+    feeRate: config.feeRate,
+    baseFare: config.baseFare,
+    demandCurve: config.demandCurve,
+    passengerRules: config.passengerRules,
+    fareRules: config.fareRules,
+    authorId: change.authorId,
+    rollbackOf: change.rollbackOf ?? null,
+  };
 }
 
 export class DatabaseStorage implements IStorage {
+  private networkListeners: NetworkChangeListener[] = [];
+
+  onNetworkChange(listener: NetworkChangeListener): void {
+    this.networkListeners.push(listener);
+  }
+
+  private emitNetworkChange(change: NetworkChange): void {
+    this.networkListeners.forEach(listener => listener(change));
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -64,6 +290,45 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Refresh token operations
+  async createRefreshToken(insertToken: InsertRefreshToken): Promise<RefreshToken> {
+    const [token] = await db
+      .insert(refreshTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  // Revokes the token only if it is still live, so two concurrent refreshes
+  // with the same token cannot both succeed
+  async consumeRefreshToken(id: string, replacedBy: string): Promise<RefreshToken | undefined> {
+    const [token] = await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date(), replacedBy })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+      .returning();
+    return token;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+  }
+
+  async revokeUserRefreshTokens(userId: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
   // Airport operations
   async getAllAirports(): Promise<Airport[]> {
     return await db.select().from(airports);
@@ -79,6 +344,7 @@ export class DatabaseStorage implements IStorage {
       .insert(airports)
       .values(insertAirport)
       .returning();
+    this.emitNetworkChange({ type: "airport:created", airport });
     return airport;
   }
 
@@ -96,9 +362,180 @@ export class DatabaseStorage implements IStorage {
       .insert(routeEdges)
       .values(insertRoute)
       .returning();
+    this.emitNetworkChange({ type: "route:created", route });
     return route;
   }
 
+  async updateRoute(id: string, routeUpdate: Partial<InsertRouteEdge>): Promise<RouteEdge | undefined> {
+    const [route] = await db
+      .update(routeEdges)
+      .set(routeUpdate)
+      .where(eq(routeEdges.id, id))
+      .returning();
+    if (route) this.emitNetworkChange({ type: "route:updated", route });
+    return route;
+  }
+
+  // Flight schedule operations
+  async getActiveFlights(): Promise<FlightWithRoute[]> {
+    const rows = await db
+      .select({ flight: flights, from: routeEdges.from, to: routeEdges.to })
+      .from(flights)
+      .innerJoin(routeEdges, eq(flights.routeEdgeId, routeEdges.id))
+      .where(and(eq(flights.active, true), eq(routeEdges.active, true)));
+    return rows.map(({ flight, from, to }) => ({ ...flight, from, to }));
+  }
+
+  async getFlight(id: string): Promise<FlightWithRoute | undefined> {
+    const [row] = await db
+      .select({ flight: flights, from: routeEdges.from, to: routeEdges.to })
+      .from(flights)
+      .innerJoin(routeEdges, eq(flights.routeEdgeId, routeEdges.id))
+      .where(eq(flights.id, id));
+    return row && { ...row.flight, from: row.from, to: row.to };
+  }
+
+  async createFlight(insertFlight: InsertFlight): Promise<Flight> {
+    const [flight] = await db
+      .insert(flights)
+      .values(insertFlight)
+      .returning();
+    return flight;
+  }
+
+  async updateFlight(id: string, flightUpdate: Partial<InsertFlight>): Promise<Flight | undefined> {
+    const [flight] = await db
+      .update(flights)
+      .set(flightUpdate)
+      .where(eq(flights.id, id))
+      .returning();
+    return flight;
+  }
+
+  // Aircraft type catalog operations
+  async getAircraftTypes(): Promise<AircraftType[]> {
+    return await db.select().from(aircraftTypes).orderBy(aircraftTypes.code);
+  }
+
+  async createAircraftType(insertAircraftType: InsertAircraftType): Promise<AircraftType> {
+    const [aircraftType] = await db
+      .insert(aircraftTypes)
+      .values(insertAircraftType)
+      .returning();
+    return aircraftType;
+  }
+
+  async updateAircraftType(id: string, aircraftTypeUpdate: Partial<InsertAircraftType>): Promise<AircraftType | undefined> {
+    const [aircraftType] = await db
+      .update(aircraftTypes)
+      .set({ ...aircraftTypeUpdate, updatedAt: new Date() })
+      .where(eq(aircraftTypes.id, id))
+      .returning();
+    return aircraftType;
+  }
+
+  async deleteAircraftType(id: string): Promise<AircraftType | undefined> {
+    const [aircraftType] = await db
+      .delete(aircraftTypes)
+      .where(eq(aircraftTypes.id, id))
+      .returning();
+    return aircraftType;
+  }
+
+  // Whether any route edge or flight still references the type by code
+  async isAircraftTypeAssigned(code: string): Promise<boolean> {
+    const [route] = await db
+      .select({ id: routeEdges.id })
+      .from(routeEdges)
+      .where(eq(routeEdges.aircraftType, code))
+      .limit(1);
+    if (route) return true;
+
+    const [flight] = await db
+      .select({ id: flights.id })
+      .from(flights)
+      .where(eq(flights.aircraftType, code))
+      .limit(1);
+    return !!flight;
+  }
+
+  // Airport charge and tax rule operations
+  async getAirportCharges(): Promise<AirportCharge[]> {
+    return await db.select().from(airportCharges).orderBy(airportCharges.airportCode, airportCharges.code);
+  }
+
+  async createAirportCharge(insertCharge: InsertAirportCharge): Promise<AirportCharge> {
+    const [charge] = await db
+      .insert(airportCharges)
+      .values(insertCharge)
+      .returning();
+    return charge;
+  }
+
+  async deleteAirportCharge(id: string): Promise<AirportCharge | undefined> {
+    const [charge] = await db
+      .delete(airportCharges)
+      .where(eq(airportCharges.id, id))
+      .returning();
+    return charge;
+  }
+
+  async getTaxRules(): Promise<TaxRule[]> {
+    return await db.select().from(taxRules).orderBy(taxRules.country, taxRules.code);
+  }
+
+  async createTaxRule(insertRule: InsertTaxRule): Promise<TaxRule> {
+    const [rule] = await db
+      .insert(taxRules)
+      .values(insertRule)
+      .returning();
+    return rule;
+  }
+
+  async deleteTaxRule(id: string): Promise<TaxRule | undefined> {
+    const [rule] = await db
+      .delete(taxRules)
+      .where(eq(taxRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  // Offer operations
+  async createOffers(insertOffers: InsertStoredOffer[]): Promise<StoredOffer[]> {
+    if (insertOffers.length === 0) return [];
+    return await db
+      .insert(offers)
+      .values(insertOffers)
+      .returning();
+  }
+
+  async getOffer(offerId: string): Promise<StoredOffer | undefined> {
+    const [offer] = await db.select().from(offers).where(eq(offers.id, offerId));
+    return offer;
+  }
+
+  // Marks the offer used only if it is unused and unexpired, so an offer can
+  // be booked at most once even under concurrent requests
+  async claimOffer(offerId: string): Promise<StoredOffer | undefined> {
+    const [offer] = await db
+      .update(offers)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(offers.id, offerId),
+        isNull(offers.usedAt),
+        gt(offers.expiresAt, new Date()),
+      ))
+      .returning();
+    return offer;
+  }
+
+  async releaseOffer(offerId: string): Promise<void> {
+    await db
+      .update(offers)
+      .set({ usedAt: null })
+      .where(eq(offers.id, offerId));
+  }
+
   // Booking operations
   async getUserBookings(userId: string): Promise<Booking[]> {
     return await db
@@ -108,49 +545,706 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(bookings.createdAt));
   }
 
-  async createBooking(insertBooking: InsertBooking): Promise<Booking> {
+  async getBookingPathsSince(since: Date): Promise<string[][]> {
+    const rows = await db
+      .select({ path: bookings.path })
+      .from(bookings)
+      // Unpaid holds and cancellations are not demand
+      .where(and(gt(bookings.createdAt, since), inArray(bookings.status, ACTIVE_BOOKING_STATUSES)));
+    return rows.map(row => row.path);
+  }
+
+  // The booking and its passengers are written together or not at all
+  async createBooking(
+    insertBooking: InsertBooking,
+    travellers: Omit<InsertPassenger, "bookingId">[]
+  ): Promise<Booking> {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx
+        .insert(bookings)
+        .values({
+          userId: insertBooking.userId,
+          pnr: insertBooking.pnr,
+          path: insertBooking.path,
+          fareBreakdown: insertBooking.fareBreakdown,
+          total: insertBooking.total,
+          currency: insertBooking.currency,
+          totalInr: insertBooking.totalInr,
+          exchangeRate: insertBooking.exchangeRate,
+          fareClass: insertBooking.fareClass,
+          configVersion: insertBooking.configVersion,
+          priceChangeIds: insertBooking.priceChangeIds,
+          fareRules: insertBooking.fareRules,
+          departsAt: insertBooking.departsAt,
+          seatHoldId: insertBooking.seatHoldId,
+          segments: insertBooking.segments,
+          status: insertBooking.status,
+          paymentDueAt: insertBooking.paymentDueAt,
+        })
+        .returning();
+      await tx.insert(passengers).values(
+        travellers.map((traveller, position) => ({ ...traveller, bookingId: booking.id, position }))
+      );
+      return booking;
+    });
+  }
+
+  async getBookingByPnr(pnr: string): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.pnr, pnr));
+    return booking;
+  }
+
+  async getBookingPassengers(bookingId: string): Promise<Passenger[]> {
+    return await db
+      .select()
+      .from(passengers)
+      .where(eq(passengers.bookingId, bookingId))
+      .orderBy(asc(passengers.position));
+  }
+
+  // Only an active booking can be cancelled, once. The status change,
+  // refunds, seats and inventory are written together or not at all.
+  async cancelBooking(
+    id: string,
+    status: Extract<BookingStatus, "cancelled" | "refunded">,
+    entries: Omit<InsertRefund, "bookingId" | "userId">[]
+  ): Promise<BookingCancellation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx
+        .update(bookings)
+        .set({ status, cancelledAt: new Date() })
+        .where(and(eq(bookings.id, id), inArray(bookings.status, ACTIVE_BOOKING_STATUSES)))
+        .returning();
+      if (!booking) return undefined;
+
+      const created = entries.length > 0
+        ? await tx
+          .insert(refunds)
+          .values(entries.map(refund => ({ ...refund, bookingId: booking.id, userId: booking.userId })))
+          .returning()
+        : [];
+      const releasedSeats = await tx
+        .delete(seatAssignments)
+        .where(eq(seatAssignments.bookingId, booking.id))
+        .returning();
+      if (booking.seatHoldId) await this.releaseHold(tx, booking.seatHoldId);
+
+      return { booking, refunds: created, releasedSeats };
+    });
+  }
+
+  // Swaps in the new itinerary only if the booking is still active and
+  // still on the version it was priced against, so concurrent changes
+  // cannot both apply. The old itinerary goes to the history and its seats
+  // back to stock; seats chosen on it are freed.
+  async changeBooking(
+    booking: Booking,
+    itinerary: ItineraryUpdate,
+    charge: ItineraryChangeCharge
+  ): Promise<BookingChange | undefined> {
+    return await db.transaction(async (tx) => {
+      const [changed] = await tx
+        .update(bookings)
+        .set({ ...itinerary, status: "changed", itineraryVersion: booking.itineraryVersion + 1 })
+        .where(and(
+          eq(bookings.id, booking.id),
+          inArray(bookings.status, ACTIVE_BOOKING_STATUSES),
+          eq(bookings.itineraryVersion, booking.itineraryVersion),
+        ))
+        .returning();
+      if (!changed) return undefined;
+
+      const [previous] = await tx
+        .insert(bookingItineraries)
+        .values({
+          bookingId: booking.id,
+          version: booking.itineraryVersion,
+          path: booking.path,
+          segments: booking.segments,
+          fareBreakdown: booking.fareBreakdown,
+          total: booking.total,
+          totalInr: booking.totalInr,
+          exchangeRate: booking.exchangeRate,
+          fareClass: booking.fareClass,
+          configVersion: booking.configVersion,
+          priceChangeIds: booking.priceChangeIds,
+          fareRules: booking.fareRules,
+          departsAt: booking.departsAt,
+          ...charge,
+        })
+        .returning();
+      const releasedSeats = await tx
+        .delete(seatAssignments)
+        .where(eq(seatAssignments.bookingId, booking.id))
+        .returning();
+      if (booking.seatHoldId) await this.releaseHold(tx, booking.seatHoldId);
+
+      return { booking: changed, previous, releasedSeats };
+    });
+  }
+
+  async getBookingItineraries(bookingId: string): Promise<BookingItinerary[]> {
+    return await db
+      .select()
+      .from(bookingItineraries)
+      .where(eq(bookingItineraries.bookingId, bookingId))
+      .orderBy(asc(bookingItineraries.version));
+  }
+
+  async getBooking(id: string): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async markBookingPaid(id: string): Promise<Booking | undefined> {
     const [booking] = await db
-      .insert(bookings)
-      .values({
-        userId: insertBooking.userId,
-        pnr: insertBooking.pnr,
-        path: insertBooking.path,
-        fareBreakdown: insertBooking.fareBreakdown,
-        total: insertBooking.total,
-        fareClass: insertBooking.fareClass,
-      })
+      .update(bookings)
+      .set({ status: "paid" })
+      .where(and(eq(bookings.id, id), eq(bookings.status, "pending")))
       .returning();
     return booking;
   }
 
-  async getBookingByPnr(pnr: string): Promise<Booking | undefined> {
-    const [booking] = await db.select().from(bookings).where(eq(bookings.pnr, pnr));
+  async ticketBooking(id: string): Promise<Booking | undefined> {
+    const [booking] = await db
+      .update(bookings)
+      .set({ status: "ticketed", ticketedAt: new Date() })
+      .where(and(eq(bookings.id, id), eq(bookings.status, "paid")))
+      .returning();
     return booking;
   }
 
+  async getUnpaidBookingsDue(now: Date): Promise<Booking[]> {
+    return await db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.status, "pending"), lte(bookings.paymentDueAt, now)));
+  }
+
+  // Gives up on a booking that was never paid: its seats go back to stock
+  // and its promotions can be redeemed again. Only a pending booking
+  // expires, so one paid in the meantime is left alone.
+  async expireBooking(id: string): Promise<Booking | undefined> {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx
+        .update(bookings)
+        .set({ status: "expired" })
+        .where(and(eq(bookings.id, id), eq(bookings.status, "pending")))
+        .returning();
+      if (!booking) return undefined;
+
+      if (booking.seatHoldId) await this.releaseHold(tx, booking.seatHoldId);
+      const redemptions = await tx
+        .delete(promotionRedemptions)
+        .where(eq(promotionRedemptions.bookingId, booking.id))
+        .returning();
+      for (const redemption of redemptions) {
+        await tx
+          .update(promotions)
+          .set({ redemptionCount: sql`${promotions.redemptionCount} - 1` })
+          .where(and(eq(promotions.id, redemption.promotionId), gt(promotions.redemptionCount, 0)));
+      }
+      return booking;
+    });
+  }
+
+  // Payment operations
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const [created] = await db.insert(payments).values(payment).returning();
+    return created;
+  }
+
+  async getBookingPayments(bookingId: string): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.bookingId, bookingId))
+      .orderBy(desc(payments.createdAt));
+  }
+
+  async getPaymentByProviderRef(provider: string, providerRef: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.provider, provider), eq(payments.providerRef, providerRef)));
+    return payment;
+  }
+
+  // Applies the change only from one of the given statuses, so a webhook
+  // and the request that started the payment cannot both act on it
+  async updatePayment(id: string, from: PaymentStatus[], changes: Partial<InsertPayment>): Promise<Payment | undefined> {
+    const [payment] = await db
+      .update(payments)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(payments.id, id), inArray(payments.status, from)))
+      .returning();
+    return payment;
+  }
+
+  async addPaymentRefund(id: string, amount: number): Promise<Payment | undefined> {
+    const refunded = sql`${payments.amountRefunded} + ${amount}`;
+    const [payment] = await db
+      .update(payments)
+      .set({
+        amountRefunded: refunded,
+        status: sql`case when ${refunded} >= ${payments.amount} then 'refunded' else ${payments.status} end`,
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, id))
+      .returning();
+    return payment;
+  }
+
+  // Charges (payments with details) not authorised since before `before`
+  async getOpenChargesBefore(before: Date): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(and(
+        isNotNull(payments.details),
+        inArray(payments.status, ["requires_payment_method", "processing", "requires_action"]),
+        lt(payments.createdAt, before),
+      ));
+  }
+
+  // False for an event that was already recorded
+  async recordPaymentEvent(event: InsertPaymentEvent): Promise<boolean> {
+    const recorded = await db
+      .insert(paymentEvents)
+      .values(event)
+      .onConflictDoNothing()
+      .returning({ id: paymentEvents.id });
+    return recorded.length > 0;
+  }
+
+  // Seat inventory operations
+
+  // Every leg is held or none is. Buckets are locked one at a time in id
+  // order, so concurrent holds queue on the same row instead of
+  // deadlocking, and each re-checks the free seats once the one before it
+  // commits.
+  async holdSeats(legs: InsertSeatInventory[], hold: Omit<InsertSeatHold, "inventoryIds">): Promise<SeatHold | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.insert(seatInventory).values(legs).onConflictDoNothing();
+        const buckets = await tx
+          .select()
+          .from(seatInventory)
+          .where(and(
+            inArray(seatInventory.flightId, legs.map(leg => leg.flightId)),
+            inArray(seatInventory.departureDate, legs.map(leg => leg.departureDate)),
+            inArray(seatInventory.fareClass, legs.map(leg => leg.fareClass)),
+          ));
+        const inventoryIds = legs.map(leg => buckets.find(bucket =>
+          bucket.flightId === leg.flightId &&
+          bucket.departureDate === leg.departureDate &&
+          bucket.fareClass === leg.fareClass
+        )!.id);
+
+        for (const id of [...inventoryIds].sort()) {
+          const [bucket] = await tx
+            .update(seatInventory)
+            .set({ held: sql`${seatInventory.held} + ${hold.seats}`, updatedAt: new Date() })
+            .where(and(
+              eq(seatInventory.id, id),
+              sql`${seatInventory.capacity} - ${seatInventory.held} - ${seatInventory.sold} >= ${hold.seats}`,
+            ))
+            .returning();
+          if (!bucket) tx.rollback();
+        }
+
+        const [created] = await tx.insert(seatHolds).values({ ...hold, inventoryIds }).returning();
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  // Moves the held seats to sold; undefined once the hold has lapsed or
+  // was released
+  async confirmSeatHold(id: string): Promise<SeatHold | undefined> {
+    return await db.transaction(async (tx) => {
+      const [hold] = await tx
+        .update(seatHolds)
+        .set({ status: "confirmed" })
+        .where(and(eq(seatHolds.id, id), eq(seatHolds.status, "held"), gt(seatHolds.expiresAt, new Date())))
+        .returning();
+      if (!hold) return undefined;
+
+      for (const inventoryId of [...hold.inventoryIds].sort()) {
+        await tx
+          .update(seatInventory)
+          .set({
+            held: sql`${seatInventory.held} - ${hold.seats}`,
+            sold: sql`${seatInventory.sold} + ${hold.seats}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(seatInventory.id, inventoryId));
+      }
+      return hold;
+    });
+  }
+
+  // Gives back the seats of a held or confirmed hold
+  async releaseSeatHold(id: string): Promise<SeatHold | undefined> {
+    return await db.transaction(async (tx) => await this.releaseHold(tx, id));
+  }
+
+  // Holds another process is already releasing are skipped, not waited on
+  async releaseExpiredSeatHolds(now: Date): Promise<SeatHold[]> {
+    return await db.transaction(async (tx) => {
+      const expired = await tx
+        .select()
+        .from(seatHolds)
+        .where(and(eq(seatHolds.status, "held"), lte(seatHolds.expiresAt, now)))
+        .for("update", { skipLocked: true });
+
+      for (const hold of expired) await this.returnSeats(tx, hold);
+      if (expired.length > 0) {
+        await tx
+          .update(seatHolds)
+          .set({ status: "released" })
+          .where(inArray(seatHolds.id, expired.map(hold => hold.id)));
+      }
+      return expired;
+    });
+  }
+
+  private async releaseHold(tx: Transaction, id: string): Promise<SeatHold | undefined> {
+    const [hold] = await tx
+      .select()
+      .from(seatHolds)
+      .where(and(eq(seatHolds.id, id), inArray(seatHolds.status, ["held", "confirmed"])))
+      .for("update");
+    if (!hold) return undefined;
+
+    await this.returnSeats(tx, hold);
+    const [released] = await tx
+      .update(seatHolds)
+      .set({ status: "released" })
+      .where(eq(seatHolds.id, id))
+      .returning();
+    return released;
+  }
+
+  private async returnSeats(tx: Transaction, hold: SeatHold): Promise<void> {
+    const update = hold.status === "confirmed"
+      ? { sold: sql`${seatInventory.sold} - ${hold.seats}` }
+      : { held: sql`${seatInventory.held} - ${hold.seats}` };
+    for (const inventoryId of [...hold.inventoryIds].sort()) {
+      await tx
+        .update(seatInventory)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(seatInventory.id, inventoryId));
+    }
+  }
+
+  // All fare class buckets of every flight on the segment that day
+  async getSegmentInventory(
+    from: string,
+    to: string,
+    departureDate: string
+  ): Promise<{ capacity: number; remaining: number } | undefined> {
+    const [row] = await db
+      .select({
+        buckets: sql<number>`count(*)::int`,
+        capacity: sql<number>`coalesce(sum(${seatInventory.capacity}), 0)::int`,
+        taken: sql<number>`coalesce(sum(${seatInventory.held} + ${seatInventory.sold}), 0)::int`,
+      })
+      .from(seatInventory)
+      .innerJoin(flights, eq(seatInventory.flightId, flights.id))
+      .innerJoin(routeEdges, eq(flights.routeEdgeId, routeEdges.id))
+      .where(and(
+        eq(routeEdges.from, from),
+        eq(routeEdges.to, to),
+        eq(seatInventory.departureDate, departureDate),
+      ));
+    if (!row || row.buckets === 0) return undefined;
+    return { capacity: row.capacity, remaining: row.capacity - row.taken };
+  }
+
+  // Seat assignment operations
+  async getSeatAssignments(flightId: string, departureDate: string): Promise<SeatAssignment[]> {
+    return await db
+      .select()
+      .from(seatAssignments)
+      .where(and(eq(seatAssignments.flightId, flightId), eq(seatAssignments.departureDate, departureDate)));
+  }
+
+  async getBookingSeatAssignments(bookingId: string): Promise<SeatAssignment[]> {
+    return await db
+      .select()
+      .from(seatAssignments)
+      .where(eq(seatAssignments.bookingId, bookingId))
+      .orderBy(asc(seatAssignments.createdAt));
+  }
+
+  // Replaces the traveller's seat on that flight, if any. A seat someone
+  // else holds fails the unique index and leaves the old seat in place.
+  async assignSeat(assignment: InsertSeatAssignment): Promise<{ assignment: SeatAssignment; replaced?: SeatAssignment }> {
+    return await db.transaction(async (tx) => {
+      const [replaced] = await tx
+        .delete(seatAssignments)
+        .where(and(
+          eq(seatAssignments.passengerId, assignment.passengerId),
+          eq(seatAssignments.flightId, assignment.flightId),
+          eq(seatAssignments.departureDate, assignment.departureDate),
+          eq(seatAssignments.status, "assigned"),
+        ))
+        .returning();
+      const [created] = await tx.insert(seatAssignments).values(assignment).returning();
+      return { assignment: created, replaced };
+    });
+  }
+
+  // Sets the seat aside while its fee is paid; the traveller keeps their
+  // current seat until it is confirmed. A taken seat fails the unique index.
+  async holdSeatAssignment(assignment: InsertSeatAssignment): Promise<SeatAssignment> {
+    const [held] = await db.insert(seatAssignments).values({ ...assignment, status: "held" }).returning();
+    return held;
+  }
+
+  // Makes a held seat the traveller's, in place of the one they had;
+  // undefined once the hold was released
+  async confirmSeatAssignment(id: string): Promise<{ assignment: SeatAssignment; replaced?: SeatAssignment } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [held] = await tx
+        .select()
+        .from(seatAssignments)
+        .where(and(eq(seatAssignments.id, id), eq(seatAssignments.status, "held")))
+        .for("update");
+      if (!held) return undefined;
+
+      const [replaced] = await tx
+        .delete(seatAssignments)
+        .where(and(
+          eq(seatAssignments.passengerId, held.passengerId),
+          eq(seatAssignments.flightId, held.flightId),
+          eq(seatAssignments.departureDate, held.departureDate),
+          eq(seatAssignments.status, "assigned"),
+        ))
+        .returning();
+      const [assignment] = await tx
+        .update(seatAssignments)
+        .set({ status: "assigned" })
+        .where(eq(seatAssignments.id, id))
+        .returning();
+      return { assignment, replaced };
+    });
+  }
+
+  // Gives a held seat back; undefined if it was confirmed or already released
+  async releaseSeatAssignment(id: string): Promise<SeatAssignment | undefined> {
+    const [released] = await db
+      .delete(seatAssignments)
+      .where(and(eq(seatAssignments.id, id), eq(seatAssignments.status, "held")))
+      .returning();
+    return released;
+  }
+
+  // Exchange rate operations
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return await db.select().from(exchangeRates).orderBy(exchangeRates.currency);
+  }
+
+  async getExchangeRate(currency: string): Promise<ExchangeRate | undefined> {
+    const [rate] = await db.select().from(exchangeRates).where(eq(exchangeRates.currency, currency));
+    return rate;
+  }
+
+  // An import replaces every listed rate or none of them
+  async upsertExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    if (rates.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      const saved: ExchangeRate[] = [];
+      for (const rate of rates) {
+        const [row] = await tx
+          .insert(exchangeRates)
+          .values(rate)
+          .onConflictDoUpdate({
+            target: exchangeRates.currency,
+            set: { ...rate, updatedAt: new Date() },
+          })
+          .returning();
+        saved.push(row);
+      }
+      return saved;
+    });
+  }
+
+  async deleteExchangeRate(currency: string): Promise<ExchangeRate | undefined> {
+    const [deleted] = await db.delete(exchangeRates).where(eq(exchangeRates.currency, currency)).returning();
+    return deleted;
+  }
+
+  // Promotion operations
+  async getPromotions(): Promise<Promotion[]> {
+    return await db.select().from(promotions).orderBy(desc(promotions.createdAt));
+  }
+
+  async getPromotionsByCodes(codes: string[]): Promise<Promotion[]> {
+    if (codes.length === 0) return [];
+    return await db.select().from(promotions).where(inArray(promotions.code, codes));
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const [created] = await db.insert(promotions).values(promotion).returning();
+    return created;
+  }
+
+  async updatePromotion(id: string, promotion: Partial<InsertPromotion>): Promise<Promotion | undefined> {
+    const [updated] = await db
+      .update(promotions)
+      .set(promotion)
+      .where(eq(promotions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Takes one redemption if any are left. The conditional increment is a
+  // single statement, so concurrent bookings cannot overshoot the limit.
+  async claimPromotion(id: string): Promise<Promotion | undefined> {
+    const [claimed] = await db
+      .update(promotions)
+      .set({ redemptionCount: sql`${promotions.redemptionCount} + 1` })
+      .where(and(
+        eq(promotions.id, id),
+        eq(promotions.active, true),
+        or(isNull(promotions.maxRedemptions), lt(promotions.redemptionCount, promotions.maxRedemptions)),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async releasePromotion(id: string): Promise<void> {
+    await db
+      .update(promotions)
+      .set({ redemptionCount: sql`${promotions.redemptionCount} - 1` })
+      .where(and(eq(promotions.id, id), gt(promotions.redemptionCount, 0)));
+  }
+
+  async createPromotionRedemptions(redemptions: InsertPromotionRedemption[]): Promise<void> {
+    if (redemptions.length === 0) return;
+    await db.insert(promotionRedemptions).values(redemptions);
+  }
+
   // Price config operations
   async getPriceConfig(): Promise<PriceConfig> {
     let [config] = await db.select().from(priceConfig).where(eq(priceConfig.id, "singleton"));
     
     if (!config) {
-      // Create default config if it doesn't exist
-      [config] = await db
-        .insert(priceConfig)
-        .values({ id: "singleton" })
-        .returning();
+      // Create default config (and its first version) if it doesn't exist
+      config = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(priceConfig)
+          .values({ id: "singleton" })
+          .onConflictDoNothing()
+          .returning();
+        if (!created) {
+          const [existing] = await tx.select().from(priceConfig).where(eq(priceConfig.id, "singleton"));
+          return existing;
+        }
+        await tx.insert(priceConfigVersions).values(versionSnapshot(created, { authorId: null }));
+        return created;
+      });
     }
     
     return config;
   }
 
-  async updatePriceConfig(configUpdate: Partial<InsertPriceConfig>): Promise<PriceConfig> {
-    const [config] = await db
+  // The singleton row lock serialises concurrent changes, so each one gets
+  // its own version number
+  async updatePriceConfig(configUpdate: Partial<InsertPriceConfig>, change: PriceConfigChange): Promise<PriceConfig> {
+    const current = await this.getPriceConfig();
+    return await db.transaction((tx) => this.writePriceConfigVersion(tx, current, configUpdate, change));
+  }
+
+  private async writePriceConfigVersion(
+    tx: Transaction,
+    current: PriceConfig,
+    configUpdate: Partial<InsertPriceConfig>,
+    change: PriceConfigChange
+  ): Promise<PriceConfig> {
+    // Configs created before versioning have no row for their version yet
+    await tx
+      .insert(priceConfigVersions)
+      .values(versionSnapshot(current, { authorId: null }))
+      .onConflictDoNothing();
+
+    const [config] = await tx
       .update(priceConfig)
-      .set({ ...configUpdate, updatedAt: new Date() })
+      .set({ ...configUpdate, version: sql`${priceConfig.version} + 1`, updatedAt: new Date() })
       .where(eq(priceConfig.id, "singleton"))
       .returning();
+    await tx.insert(priceConfigVersions).values(versionSnapshot(config, change));
     return config;
   }
+
+  async getPriceConfigVersions(): Promise<PriceConfigVersionWithAuthor[]> {
+    const rows = await db
+      .select({ version: priceConfigVersions, authorName: users.name })
+      .from(priceConfigVersions)
+      .leftJoin(users, eq(priceConfigVersions.authorId, users.id))
+      .orderBy(desc(priceConfigVersions.version));
+    return rows.map(({ version, authorName }) => ({ ...version, authorName }));
+  }
+
+  async getPriceConfigVersion(version: number): Promise<PriceConfigVersion | undefined> {
+    const [row] = await db.select().from(priceConfigVersions).where(eq(priceConfigVersions.version, version));
+    return row;
+  }
+
+  // Scheduled price config changes
+  async createScheduledPriceChange(change: InsertScheduledPriceChange): Promise<ScheduledPriceChange> {
+    const [created] = await db.insert(scheduledPriceChanges).values(change).returning();
+    return created;
+  }
+
+  async getScheduledPriceChanges(): Promise<ScheduledPriceChange[]> {
+    return await db.select().from(scheduledPriceChanges).orderBy(desc(scheduledPriceChanges.effectiveAt));
+  }
+
+  async getPendingPriceChanges(): Promise<ScheduledPriceChange[]> {
+    return await db
+      .select()
+      .from(scheduledPriceChanges)
+      .where(eq(scheduledPriceChanges.status, "pending"))
+      .orderBy(asc(scheduledPriceChanges.effectiveAt), asc(scheduledPriceChanges.createdAt));
+  }
+
+  async cancelScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined> {
+    const [cancelled] = await db
+      .update(scheduledPriceChanges)
+      .set({ status: "cancelled" })
+      .where(and(eq(scheduledPriceChanges.id, id), eq(scheduledPriceChanges.status, "pending")))
+      .returning();
+    return cancelled;
+  }
+
+  // Claiming the pending row and writing the new version happen in one
+  // transaction, so a change is applied exactly once even if several
+  // processes run the scheduler
+  async applyScheduledPriceChange(id: string): Promise<PriceConfig | undefined> {
+    const current = await this.getPriceConfig();
+
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(scheduledPriceChanges)
+        .set({ status: "applied" })
+        .where(and(eq(scheduledPriceChanges.id, id), eq(scheduledPriceChanges.status, "pending")))
+        .returning();
+      if (!claimed) return undefined;
+
+      const config = await this.writePriceConfigVersion(tx, current, claimed.changes, { authorId: claimed.authorId });
+      await tx
+        .update(scheduledPriceChanges)
+        .set({ appliedVersion: config.version })
+        .where(eq(scheduledPriceChanges.id, id));
+      return config;
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,47 @@
+// Offset (local minus UTC, in ms) of an IANA time zone at the given instant
+function zoneOffsetMs(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Converts a local wall-clock date ("YYYY-MM-DD") and time ("HH:MM") in the
+// given zone to a UTC epoch in ms
+export function zonedTimeToUtc(date: string, time: string, timeZone: string, dayOffset = 0): number {
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const wallClock = Date.UTC(y, m - 1, d + dayOffset, hh, mm);
+
+  // Re-check the offset at the resulting instant to handle DST transitions
+  const firstGuess = wallClock - zoneOffsetMs(timeZone, wallClock);
+  return wallClock - zoneOffsetMs(timeZone, firstGuess);
+}
+
+// ISO weekday (Mon = 1 … Sun = 7) of a "YYYY-MM-DD" calendar date
+export function isoWeekday(date: string): number {
+  const [y, m, d] = date.split("-").map(Number);
+  const day = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+// Calendar date `days` after a "YYYY-MM-DD" date
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+// Local calendar date ("YYYY-MM-DD") in the given zone at a UTC epoch in ms
+export function utcToZonedDate(instant: number, timeZone: string): string {
+  return new Date(instant + zoneOffsetMs(timeZone, instant)).toISOString().slice(0, 10);
+}
@@ -8,7 +8,8 @@ import {
   integer, 
   boolean, 
   jsonb,
-  index
+  index,
+  uniqueIndex
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -35,6 +36,23 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Refresh tokens table (hashed, one rotation family per device login)
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  familyId: varchar("family_id").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).unique().notNull(),
+  userAgent: text("user_agent"),
+  ip: varchar("ip"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  replacedBy: varchar("replaced_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_refresh_token_user").on(table.userId),
+  index("idx_refresh_token_family").on(table.familyId),
+]);
+
 // Airports table
 export const airports = pgTable("airports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -44,6 +62,8 @@ export const airports = pgTable("airports", {
   country: varchar("country").notNull(),
   lat: real("lat").notNull(),
   lon: real("lon").notNull(),
+  timezone: varchar("timezone").default("Asia/Kolkata").notNull(), // IANA zone
+  minConnectionMinutes: integer("min_connection_minutes").default(45).notNull(),
 }, (table) => [
   index("idx_airport_code").on(table.code),
 ]);
@@ -55,10 +75,176 @@ export const routeEdges = pgTable("route_edges", {
   to: varchar("to", { length: 3 }).notNull(),
   distanceKm: real("distance_km").notNull(),
   active: boolean("active").default(true).notNull(),
+  // Edges are directed; set to also allow travel from "to" back to "from"
+  bidirectional: boolean("bidirectional").default(false).notNull(),
+  // Aircraft flying this edge when no scheduled flight says otherwise
+  aircraftType: varchar("aircraft_type", { length: 8 }),
+  // Replaces priceConfig.baseFare for itineraries using this edge
+  baseFareOverride: real("base_fare_override"),
 }, (table) => [
   index("idx_route_from_to").on(table.from, table.to),
 ]);
 
+// Per-passenger charges levied by an airport on every segment departing it
+// (e.g. user development fee, passenger service fee)
+export const airportCharges = pgTable("airport_charges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  airportCode: varchar("airport_code", { length: 3 }).notNull(),
+  code: varchar("code", { length: 8 }).notNull(), // e.g. "UDF", "PSF"
+  name: varchar("name").notNull(),
+  amount: real("amount").notNull(),
+  active: boolean("active").default(true).notNull(),
+}, (table) => [
+  index("idx_airport_charge_airport").on(table.airportCode),
+]);
+
+// Taxes levied by the country an itinerary departs from, keyed on
+// airports.country. A country without rules falls back to priceConfig.taxRate.
+export const taxRules = pgTable("tax_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  country: varchar("country").notNull(),
+  code: varchar("code", { length: 8 }).notNull(), // e.g. "GST"
+  name: varchar("name").notNull(),
+  rate: real("rate").notNull(), // fraction of base + fuel + ops
+  active: boolean("active").default(true).notNull(),
+}, (table) => [
+  index("idx_tax_rule_country").on(table.country),
+]);
+
+// Fuel burn for legs up to maxDistanceKm long (null = no upper bound).
+// The rate applies to the whole leg: short hops burn more per km climbing.
+export interface BurnBand {
+  maxDistanceKm: number | null;
+  burnLPerKm: number;
+}
+
+// Seat rows of one cabin. Columns are seat letters left to right, a space
+// marking an aisle, e.g. "ABC DEF".
+export interface SeatCabin {
+  name: string;
+  firstRow: number;
+  lastRow: number;
+  columns: string;
+}
+
+// Cabin plan of an aircraft type. Seat fees are INR; fares with free seat
+// selection waive the standard fee but not the extra legroom one.
+export interface SeatLayout {
+  cabins: SeatCabin[];
+  exitRows: number[]; // extra legroom rows
+  blockedSeats: string[]; // never assigned, e.g. "18D"
+  seatFee: number;
+  extraLegroomFee: number;
+}
+
+// Aircraft type catalog, referenced by code from route edges and flights
+export const aircraftTypes = pgTable("aircraft_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 8 }).unique().notNull(), // e.g. "A320", "AT76"
+  name: varchar("name").notNull(),
+  seatCapacity: integer("seat_capacity").notNull(),
+  cruiseSpeedKmh: integer("cruise_speed_kmh").notNull(),
+  burnBands: jsonb("burn_bands").$type<BurnBand[]>().notNull(), // ascending by maxDistanceKm
+  seatLayout: jsonb("seat_layout").$type<SeatLayout>(), // null: laid out from seatCapacity
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Scheduled flights (one directed route edge each, times in local time)
+export const flights = pgTable("flights", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flightNumber: varchar("flight_number", { length: 8 }).notNull(),
+  routeEdgeId: varchar("route_edge_id").notNull(),
+  daysOfOperation: jsonb("days_of_operation").$type<number[]>().notNull(), // ISO weekdays, Mon = 1
+  departureTime: varchar("departure_time", { length: 5 }).notNull(), // "HH:MM" at origin
+  arrivalTime: varchar("arrival_time", { length: 5 }).notNull(), // "HH:MM" at destination
+  arrivalDayOffset: integer("arrival_day_offset").default(0).notNull(),
+  aircraftType: varchar("aircraft_type", { length: 8 }).notNull(), // aircraft_types.code
+  active: boolean("active").default(true).notNull(),
+}, (table) => [
+  index("idx_flight_route_edge").on(table.routeEdgeId),
+]);
+
+// Parameters of the demand factor curve (see server/services/demand.ts)
+export interface DemandCurve {
+  baseline: number; // factor for a quiet flight far from departure
+  min: number;
+  max: number;
+  windowDays: number; // how far back bookings count towards booking pace
+  peakBookingsPerDay: number; // pace per segment that earns the full booking premium
+  bookingWeight: number;
+  loadThreshold: number; // load factor above which the load premium starts
+  loadWeight: number; // premium when the flight is full
+  advanceDays: number; // days before departure when the late premium starts
+  advanceWeight: number; // premium on the day of departure
+}
+
+export const DEFAULT_DEMAND_CURVE: DemandCurve = {
+  baseline: 0.95,
+  min: 0.9,
+  max: 1.5,
+  windowDays: 7,
+  peakBookingsPerDay: 20,
+  bookingWeight: 0.2,
+  loadThreshold: 0.6,
+  loadWeight: 0.3,
+  advanceDays: 14,
+  advanceWeight: 0.15,
+};
+
+// Fares are priced in INR and converted for travellers paying in another
+// currency. Converted amounts are rounded to the currency's increment.
+export const exchangeRates = pgTable("exchange_rates", {
+  currency: varchar("currency", { length: 3 }).primaryKey(), // ISO 4217, e.g. "USD"
+  inrPerUnit: real("inr_per_unit").notNull(), // INR for one unit of the currency
+  roundingIncrement: real("rounding_increment").default(0.01).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type PassengerType = "adult" | "child" | "infant";
+
+// How a passenger type is priced relative to an adult. Components a type
+// is exempt from are left out before the multiplier is applied.
+export interface PassengerTypeRule {
+  fareMultiplier: number;
+  fuel: boolean;
+  taxes: boolean;
+  airportCharges: boolean;
+}
+
+export type PassengerRules = Record<PassengerType, PassengerTypeRule>;
+
+export const DEFAULT_PASSENGER_RULES: PassengerRules = {
+  adult: { fareMultiplier: 1, fuel: true, taxes: true, airportCharges: true },
+  child: { fareMultiplier: 0.75, fuel: true, taxes: true, airportCharges: true },
+  infant: { fareMultiplier: 0.1, fuel: false, taxes: false, airportCharges: false },
+};
+
+// Conditions a fare class is sold with. Refunds and changes are only
+// possible until the deadline before departure; the change fee is INR per
+// seated traveller.
+export interface FareRule {
+  refundRate: number; // fraction of the amount paid refunded on cancellation
+  changeFee: number;
+  baggageKg: number; // free checked baggage per seated traveller
+  freeSeatSelection: boolean;
+  cancellationDeadlineHours: number;
+}
+
+export type FareRules = Record<"Saver" | "Standard" | "Flex", FareRule>;
+
+export const DEFAULT_FARE_RULES: FareRules = {
+  Saver: { refundRate: 0, changeFee: 3000, baggageKg: 15, freeSeatSelection: false, cancellationDeadlineHours: 24 },
+  Standard: { refundRate: 0.5, changeFee: 1500, baggageKg: 20, freeSeatSelection: false, cancellationDeadlineHours: 24 },
+  Flex: { refundRate: 1, changeFee: 0, baggageKg: 30, freeSeatSelection: true, cancellationDeadlineHours: 2 },
+};
+
+// Travellers on one itinerary; infants travel on an adult's lap
+export interface PaxMix {
+  adults: number;
+  children: number;
+  infants: number;
+}
+
 // Price configuration table
 export const priceConfig = pgTable("price_config", {
   id: varchar("id").primaryKey().default("singleton"),
@@ -67,40 +253,373 @@ export const priceConfig = pgTable("price_config", {
   taxRate: real("tax_rate").default(0.18).notNull(),
   feeRate: real("fee_rate").default(0.08).notNull(),
   baseFare: real("base_fare").default(1500).notNull(),
+  demandCurve: jsonb("demand_curve").$type<DemandCurve>().default(DEFAULT_DEMAND_CURVE).notNull(),
+  passengerRules: jsonb("passenger_rules").$type<PassengerRules>().default(DEFAULT_PASSENGER_RULES).notNull(),
+  fareRules: jsonb("fare_rules").$type<FareRules>().default(DEFAULT_FARE_RULES).notNull(),
+  version: integer("version").default(1).notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Immutable history of the price configuration, one row per version. The
+// singleton above always mirrors the latest row.
+export const priceConfigVersions = pgTable("price_config_versions", {
+  version: integer("version").primaryKey(),
+  fuelPricePerLitre: real("fuel_price_per_litre").notNull(),
+  defaultBurnLPerKm: real("default_burn_l_per_km").notNull(),
+  taxRate: real("tax_rate").notNull(),
+  feeRate: real("fee_rate").notNull(),
+  baseFare: real("base_fare").notNull(),
+  demandCurve: jsonb("demand_curve").$type<DemandCurve>().notNull(),
+  passengerRules: jsonb("passenger_rules").$type<PassengerRules>().default(DEFAULT_PASSENGER_RULES).notNull(),
+  fareRules: jsonb("fare_rules").$type<FareRules>().default(DEFAULT_FARE_RULES).notNull(),
+  authorId: varchar("author_id"), // null for the initial default config
+  rollbackOf: integer("rollback_of"), // version whose values were restored
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Price config changes waiting for their effective time. Activating one
+// writes a new version; until then quotes for travel after effectiveAt
+// are priced as if it were already in force.
+export const scheduledPriceChanges = pgTable("scheduled_price_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  changes: jsonb("changes").$type<PriceConfigUpdate>().notNull(),
+  effectiveAt: timestamp("effective_at").notNull(),
+  status: varchar("status").default("pending").notNull(), // "pending" | "applied" | "cancelled"
+  authorId: varchar("author_id").notNull(),
+  appliedVersion: integer("applied_version"), // version written on activation
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_scheduled_price_change_status").on(table.status, table.effectiveAt),
+]);
+
+// Promo codes. A promotion without an origin or destination applies to any
+// itinerary; without fare classes it applies to every class.
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 20 }).unique().notNull(),
+  name: varchar("name").notNull(),
+  kind: varchar("kind").notNull(), // "percent" | "fixed"
+  value: real("value").notNull(), // fraction of the fare, or INR per passenger
+  origin: varchar("origin", { length: 3 }),
+  destination: varchar("destination", { length: 3 }),
+  fareClasses: jsonb("fare_classes").$type<string[]>(),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxRedemptions: integer("max_redemptions"), // null = unlimited
+  redemptionCount: integer("redemption_count").default(0).notNull(),
+  stackable: boolean("stackable").default(false).notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per promotion applied to a booking
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promotionId: varchar("promotion_id").notNull(),
+  bookingId: varchar("booking_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  amount: real("amount").notNull(), // total discount on the booking
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_promotion_redemption_promotion").on(table.promotionId),
+]);
+
+// Itemised fare line. Tax lines add up to FareBreakdown.taxes; airport
+// charges are passed through outside demand and class pricing. Both are per
+// adult passenger. Discount lines are negative, specific to the fare class
+// they were priced for and total over all passengers.
+export interface FareLine {
+  kind: "tax" | "airport_charge" | "discount";
+  code: string;
+  label: string;
+  amount: number;
+}
+
+// What each passenger of a type pays in the offer's fare class
+export interface PassengerFare {
+  type: PassengerType;
+  count: number;
+  fare: number; // per passenger, before discounts
+  discount: number; // per passenger, negative or zero
+  total: number; // count * (fare + discount)
+}
+
+// Stored fare breakdown; rows written before itemisation have no lines and
+// rows written before passenger types have no passengers
+export interface StoredFareBreakdown {
+  base: number;
+  fuelCost: number;
+  ops: number;
+  taxes: number;
+  demand: number;
+  lines?: FareLine[];
+  passengers?: PassengerFare[];
+}
+
+// Offers table (every quoted fare, bookable until it expires or is used)
+export const offers = pgTable("offers", {
+  id: varchar("id").primaryKey(),
+  path: jsonb("path").$type<string[]>().notNull(),
+  segments: jsonb("segments").$type<Array<{
+    from: string;
+    to: string;
+    distanceKm: number;
+    aircraftType?: string | null;
+  }>>().notNull(),
+  totalDistanceKm: real("total_distance_km").notNull(),
+  algorithm: varchar("algorithm").notNull(),
+  pax: integer("pax").notNull(), // all travellers, infants included
+  paxMix: jsonb("pax_mix").$type<PaxMix>(), // null for offers quoted as adults only
+  fareClass: varchar("fare_class").notNull(), // "Saver" | "Standard" | "Flex"
+  fareBreakdown: jsonb("fare_breakdown").$type<StoredFareBreakdown>().notNull(),
+  totalFare: real("total_fare").notNull(), // in `currency`
+  currency: varchar("currency", { length: 3 }).notNull(),
+  totalFareInr: real("total_fare_inr"), // null for offers quoted before conversion
+  exchangeRate: real("exchange_rate").default(1).notNull(), // INR per unit of `currency`
+  configVersion: integer("config_version").notNull(),
+  priceChangeIds: jsonb("price_change_ids").$type<string[]>(), // scheduled changes priced in over `configVersion`
+  departsAt: timestamp("departs_at"), // first departure of a dated itinerary
+  promoCode: varchar("promo_code"), // as entered when quoting
+  fareRules: jsonb("fare_rules").$type<FareRule>(), // null for offers quoted before fare rules
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_offer_expires").on(table.expiresAt),
+]);
+
+// A leg as booked. Timetable itineraries also carry the flight and its
+// times (ISO-8601 UTC).
+export interface ItinerarySegment {
+  from: string;
+  to: string;
+  distanceKm: number;
+  aircraftType?: string | null;
+  flightId?: string;
+  flightNumber?: string;
+  departure?: string;
+  arrival?: string;
+}
+
 // Bookings table
 export const bookings = pgTable("bookings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   pnr: varchar("pnr", { length: 8 }).unique().notNull(),
   userId: varchar("user_id").notNull(),
   path: jsonb("path").$type<string[]>().notNull(),
-  fareBreakdown: jsonb("fare_breakdown").$type<{
-    base: number;
-    fuelCost: number;
-    ops: number;
-    taxes: number;
-    demand: number;
-  }>().notNull(),
-  total: real("total").notNull(),
+  fareBreakdown: jsonb("fare_breakdown").$type<StoredFareBreakdown>().notNull(),
+  total: real("total").notNull(), // charged, in `currency`
+  currency: varchar("currency", { length: 3 }).default("INR").notNull(),
+  totalInr: real("total_inr"), // INR base amount; null for bookings made before conversion
+  exchangeRate: real("exchange_rate").default(1).notNull(), // INR per unit of `currency`
   fareClass: varchar("fare_class").notNull(), // "Saver" | "Standard" | "Flex"
+  configVersion: integer("config_version"), // null for bookings made before versioning
+  // Scheduled changes not yet active that the fare was priced with on top of
+  // `configVersion`; null for bookings made before they were recorded
+  priceChangeIds: jsonb("price_change_ids").$type<string[]>(),
+  fareRules: jsonb("fare_rules").$type<FareRule>(), // as sold; null for bookings made before fare rules
+  departsAt: timestamp("departs_at"), // first departure of a dated itinerary
+  seatHoldId: varchar("seat_hold_id"), // null for undated itineraries
+  segments: jsonb("segments").$type<ItinerarySegment[]>(), // null for bookings made before segments were kept
+  // "pending" until paid, then "paid" and "ticketed"; unpaid bookings end
+  // "expired". Bookings made before payments start out "confirmed".
+  status: varchar("status").default("confirmed").notNull(),
+  paymentDueAt: timestamp("payment_due_at"), // null for bookings made before payments
+  ticketedAt: timestamp("ticketed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  itineraryVersion: integer("itinerary_version").default(1).notNull(), // bumped on every change
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_booking_user_date").on(table.userId, table.createdAt),
   index("idx_booking_pnr").on(table.pnr),
 ]);
 
+// One row per traveller on a booking
+export const passengers = pgTable("passengers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").notNull(),
+  position: integer("position").notNull(), // order entered; the first is the lead passenger
+  type: varchar("type").notNull(), // "adult" | "child" | "infant"
+  firstName: varchar("first_name").notNull(),
+  lastName: varchar("last_name").notNull(),
+  dateOfBirth: varchar("date_of_birth", { length: 10 }), // YYYY-MM-DD
+  email: varchar("email"),
+  phone: varchar("phone"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_passenger_booking").on(table.bookingId),
+]);
+
+// An itinerary a booking has been changed away from, kept for support with
+// what the change that replaced it cost. Charges are in the booking's
+// currency.
+export const bookingItineraries = pgTable("booking_itineraries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").notNull(),
+  version: integer("version").notNull(),
+  path: jsonb("path").$type<string[]>().notNull(),
+  segments: jsonb("segments").$type<ItinerarySegment[]>(),
+  fareBreakdown: jsonb("fare_breakdown").$type<StoredFareBreakdown>().notNull(),
+  total: real("total").notNull(),
+  totalInr: real("total_inr"),
+  exchangeRate: real("exchange_rate").notNull(),
+  fareClass: varchar("fare_class").notNull(),
+  configVersion: integer("config_version"),
+  priceChangeIds: jsonb("price_change_ids").$type<string[]>(),
+  fareRules: jsonb("fare_rules").$type<FareRule>(),
+  departsAt: timestamp("departs_at"),
+  fareDifference: real("fare_difference").notNull(), // negative when the new itinerary is cheaper
+  changeFee: real("change_fee").notNull(),
+  charged: real("charged").notNull(),
+  chargedInr: real("charged_inr").notNull(),
+  changedBy: varchar("changed_by"),
+  replacedAt: timestamp("replaced_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_booking_itinerary_version").on(table.bookingId, table.version),
+]);
+
+// Money returned on a booking, one row per refund. Amounts are positive.
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  reason: varchar("reason").notNull(), // "cancellation"
+  amount: real("amount").notNull(), // in `currency`
+  currency: varchar("currency", { length: 3 }).notNull(),
+  amountInr: real("amount_inr").notNull(),
+  refundRate: real("refund_rate").notNull(), // fare rule applied
+  paymentId: varchar("payment_id"), // null for bookings never paid through a provider
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_refund_booking").on(table.bookingId),
+]);
+
+// One payment intent at a provider per attempt to pay a booking's fare,
+// and one per charge on top of it. Amounts are in the booking's currency.
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  provider: varchar("provider").notNull(), // e.g. "mock"
+  providerRef: varchar("provider_ref").notNull(), // the provider's intent id
+  amount: real("amount").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  amountInr: real("amount_inr").notNull(),
+  amountRefunded: real("amount_refunded").default(0).notNull(),
+  // "requires_payment_method" | "processing" | "requires_action" |
+  // "authorized" | "captured" | "cancelled" | "refunded"
+  status: varchar("status").notNull(),
+  nextAction: jsonb("next_action").$type<PaymentNextAction>(), // set while "requires_action"
+  failureReason: varchar("failure_reason"), // why the last attempt failed, e.g. "card_declined"
+  details: jsonb("details").$type<PaymentDetails>(), // what a charge pays for; null for the fare
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_payment_booking").on(table.bookingId),
+  uniqueIndex("idx_payment_provider_ref").on(table.provider, table.providerRef),
+]);
+
+// Webhook events as received, kept so a redelivered event is applied once
+export const paymentEvents = pgTable("payment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(),
+  eventId: varchar("event_id").notNull(), // the provider's id for the event
+  type: varchar("type").notNull(),
+  providerRef: varchar("provider_ref").notNull(),
+  payload: jsonb("payload").notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_payment_event").on(table.provider, table.eventId),
+]);
+
+// A seat a traveller has picked on one flight of their booking. A seat can
+// only be taken once per departure, and a traveller has one seat per flight.
+// A seat with a fee is held for them while the fee is being paid, next to
+// the seat they have.
+export const seatAssignments = pgTable("seat_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").notNull(),
+  passengerId: varchar("passenger_id").notNull(),
+  flightId: varchar("flight_id").notNull(),
+  departureDate: varchar("departure_date", { length: 10 }).notNull(), // local date at the origin
+  seat: varchar("seat", { length: 4 }).notNull(), // e.g. "12A"
+  fee: real("fee").notNull(), // in the booking's currency
+  feeInr: real("fee_inr").notNull(),
+  status: varchar("status").default("assigned").notNull(), // "held" | "assigned"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_seat_assignment_seat").on(table.flightId, table.departureDate, table.seat),
+  uniqueIndex("idx_seat_assignment_passenger")
+    .on(table.passengerId, table.flightId, table.departureDate)
+    .where(sql`${table.status} = 'assigned'`),
+  index("idx_seat_assignment_booking").on(table.bookingId),
+]);
+
+// Seats of one fare class bucket on a dated departure of a flight. Rows are
+// created the first time the departure is held; free seats are
+// capacity - held - sold.
+export const seatInventory = pgTable("seat_inventory", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flightId: varchar("flight_id").notNull(),
+  departureDate: varchar("departure_date", { length: 10 }).notNull(), // local date at the origin
+  fareClass: varchar("fare_class").notNull(), // "Saver" | "Standard" | "Flex"
+  capacity: integer("capacity").notNull(),
+  held: integer("held").default(0).notNull(),
+  sold: integer("sold").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_seat_inventory_departure").on(table.flightId, table.departureDate, table.fareClass),
+]);
+
+// Seats set aside on every leg of an itinerary while it is being booked.
+// A hold is confirmed into sold seats or released; unconfirmed holds lapse
+// at expiresAt.
+export const seatHolds = pgTable("seat_holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  offerId: varchar("offer_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  inventoryIds: jsonb("inventory_ids").$type<string[]>().notNull(), // one per leg
+  seats: integer("seats").notNull(), // per leg; infants have no seat
+  status: varchar("status").default("held").notNull(), // "held" | "confirmed" | "released"
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_seat_hold_status").on(table.status, table.expiresAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   bookings: many(bookings),
+  refreshTokens: many(refreshTokens),
 }));
 
-export const bookingsRelations = relations(bookings, ({ one }) => ({
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [refreshTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const flightsRelations = relations(flights, ({ one }) => ({
+  routeEdge: one(routeEdges, {
+    fields: [flights.routeEdgeId],
+    references: [routeEdges.id],
+  }),
+}));
+
+export const bookingsRelations = relations(bookings, ({ one, many }) => ({
   user: one(users, {
     fields: [bookings.userId],
     references: [users.id],
   }),
+  passengers: many(passengers),
+}));
+
+export const passengersRelations = relations(passengers, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [passengers.bookingId],
+    references: [bookings.id],
+  }),
 }));
 
 export const routeEdgesRelations = relations(routeEdges, ({ one }) => ({
@@ -120,6 +639,12 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
+export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({
+  revokedAt: true,
+  replacedBy: true,
+  createdAt: true,
+});
+
 export const insertAirportSchema = createInsertSchema(airports).omit({
   id: true,
 });
@@ -128,13 +653,144 @@ export const insertRouteEdgeSchema = createInsertSchema(routeEdges).omit({
   id: true,
 });
 
+export const insertOfferSchema = createInsertSchema(offers).omit({
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertFlightSchema = createInsertSchema(flights, {
+  daysOfOperation: z.array(z.number().int().min(1).max(7)).min(1),
+  departureTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  arrivalTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+}).omit({
+  id: true,
+});
+
+export const insertAirportChargeSchema = createInsertSchema(airportCharges, {
+  airportCode: z.string().length(3).toUpperCase(),
+  code: z.string().min(2).max(8).toUpperCase(),
+  amount: z.number().min(0),
+}).omit({
+  id: true,
+});
+
+export const insertTaxRuleSchema = createInsertSchema(taxRules, {
+  code: z.string().min(2).max(8).toUpperCase(),
+  rate: z.number().min(0).max(1),
+}).omit({
+  id: true,
+});
+
+export const insertAircraftTypeSchema = createInsertSchema(aircraftTypes, {
+  code: z.string().regex(/^[A-Z0-9]{2,8}$/),
+  seatCapacity: z.number().int().positive(),
+  cruiseSpeedKmh: z.number().int().positive(),
+  burnBands: z.array(z.object({
+    maxDistanceKm: z.number().positive().nullable(),
+    burnLPerKm: z.number().positive(),
+  })).min(1),
+  seatLayout: z.object({
+    cabins: z.array(z.object({
+      name: z.string().min(1),
+      firstRow: z.number().int().positive(),
+      lastRow: z.number().int().positive(),
+      columns: z.string().regex(/^[A-Z]+( [A-Z]+)*$/),
+    }).refine(cabin => cabin.firstRow <= cabin.lastRow, { message: "firstRow must not exceed lastRow" })).min(1),
+    exitRows: z.array(z.number().int().positive()),
+    blockedSeats: z.array(z.string().regex(/^\d+[A-Z]$/)),
+    seatFee: z.number().min(0),
+    extraLegroomFee: z.number().min(0),
+  }).nullish(),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+const promotionFieldsSchema = createInsertSchema(promotions, {
+  code: z.string().regex(/^[A-Za-z0-9]{3,20}$/).toUpperCase(),
+  kind: z.enum(["percent", "fixed"]),
+  value: z.number().positive(),
+  origin: z.string().length(3).toUpperCase().nullish(),
+  destination: z.string().length(3).toUpperCase().nullish(),
+  fareClasses: z.array(z.enum(["Saver", "Standard", "Flex"])).min(1).nullish(),
+  validFrom: z.coerce.date().nullish(),
+  validUntil: z.coerce.date().nullish(),
+  maxRedemptions: z.number().int().positive().nullish(),
+}).omit({
+  id: true,
+  redemptionCount: true,
+  createdAt: true,
+});
+
+export const insertPromotionSchema = promotionFieldsSchema.refine(
+  promotion => promotion.kind !== "percent" || promotion.value <= 1,
+  { message: "A percent discount is a fraction between 0 and 1", path: ["value"] }
+);
+
+// The discount itself is fixed once codes may have been handed out
+export const updatePromotionSchema = promotionFieldsSchema
+  .pick({ name: true, validFrom: true, validUntil: true, maxRedemptions: true, stackable: true, active: true })
+  .partial();
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  currency: z.string().regex(/^[A-Za-z]{3}$/).toUpperCase(),
+  inrPerUnit: z.number().positive(),
+  roundingIncrement: z.number().min(0.01),
+}).omit({
+  updatedAt: true,
+});
+
 export const insertBookingSchema = createInsertSchema(bookings).omit({
   id: true,
   pnr: true,
   createdAt: true,
 });
 
-export const insertPriceConfigSchema = createInsertSchema(priceConfig).omit({
+export const demandCurveSchema = z.object({
+  baseline: z.number().positive(),
+  min: z.number().positive(),
+  max: z.number().positive(),
+  windowDays: z.number().int().positive(),
+  peakBookingsPerDay: z.number().positive(),
+  bookingWeight: z.number().min(0),
+  loadThreshold: z.number().min(0).max(1),
+  loadWeight: z.number().min(0),
+  advanceDays: z.number().int().positive(),
+  advanceWeight: z.number().min(0),
+}).refine(curve => curve.min <= curve.max, { message: "min must not exceed max" });
+
+const passengerTypeRuleSchema = z.object({
+  fareMultiplier: z.number().min(0),
+  fuel: z.boolean(),
+  taxes: z.boolean(),
+  airportCharges: z.boolean(),
+});
+
+export const passengerRulesSchema = z.object({
+  adult: passengerTypeRuleSchema,
+  child: passengerTypeRuleSchema,
+  infant: passengerTypeRuleSchema,
+});
+
+const fareRuleSchema = z.object({
+  refundRate: z.number().min(0).max(1),
+  changeFee: z.number().min(0),
+  baggageKg: z.number().int().min(0),
+  freeSeatSelection: z.boolean(),
+  cancellationDeadlineHours: z.number().min(0),
+});
+
+export const fareRulesSchema = z.object({
+  Saver: fareRuleSchema,
+  Standard: fareRuleSchema,
+  Flex: fareRuleSchema,
+});
+
+export const insertPriceConfigSchema = createInsertSchema(priceConfig, {
+  demandCurve: demandCurveSchema,
+  passengerRules: passengerRulesSchema,
+  fareRules: fareRulesSchema,
+}).omit({
   updatedAt: true,
 });
 
@@ -142,18 +798,167 @@ export const insertPriceConfigSchema = createInsertSchema(priceConfig).omit({
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+
 export type Airport = typeof airports.$inferSelect;
 export type InsertAirport = z.infer<typeof insertAirportSchema>;
 
 export type RouteEdge = typeof routeEdges.$inferSelect;
 export type InsertRouteEdge = z.infer<typeof insertRouteEdgeSchema>;
 
+export type Flight = typeof flights.$inferSelect;
+export type InsertFlight = Omit<typeof flights.$inferInsert, "id">;
+export type FlightWithRoute = Flight & { from: string; to: string };
+
+export type AirportCharge = typeof airportCharges.$inferSelect;
+export type InsertAirportCharge = z.infer<typeof insertAirportChargeSchema>;
+
+export type TaxRule = typeof taxRules.$inferSelect;
+export type InsertTaxRule = z.infer<typeof insertTaxRuleSchema>;
+
+export type AircraftType = typeof aircraftTypes.$inferSelect;
+export type InsertAircraftType = Omit<typeof aircraftTypes.$inferInsert, "id" | "updatedAt">;
+
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = Omit<typeof promotions.$inferInsert, "id" | "redemptionCount" | "createdAt">;
+
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+export type InsertPromotionRedemption = Omit<typeof promotionRedemptions.$inferInsert, "id" | "createdAt">;
+
+export type StoredOffer = typeof offers.$inferSelect;
+export type InsertStoredOffer = Omit<typeof offers.$inferInsert, "usedAt" | "createdAt">;
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+
+export type Passenger = typeof passengers.$inferSelect;
+export type InsertPassenger = Omit<typeof passengers.$inferInsert, "id" | "position" | "createdAt">;
+
+export type SeatInventory = typeof seatInventory.$inferSelect;
+export type InsertSeatInventory = Omit<typeof seatInventory.$inferInsert, "id" | "held" | "sold" | "updatedAt">;
+
+export type BookingStatus =
+  | "pending"
+  | "paid"
+  | "ticketed"
+  | "confirmed"
+  | "cancelled"
+  | "refunded"
+  | "changed"
+  | "expired";
+
+// Bookings that will still fly; a changed booking is as good as a confirmed one
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ["paid", "ticketed", "confirmed", "changed"];
+
+export type PaymentStatus =
+  | "requires_payment_method"
+  | "processing"
+  | "requires_action"
+  | "authorized"
+  | "captured"
+  | "cancelled"
+  | "refunded";
+
+// What the traveller has to do before the payment can go on, e.g. pass a
+// 3-D Secure challenge
+export interface PaymentNextAction {
+  type: "challenge";
+  url: string;
+}
+
+// An itinerary change paid for separately, applied once the payment is
+// captured. It was priced against `itineraryVersion` and only applies to
+// the booking as it was then.
+export interface ChangePaymentDetails {
+  kind: "change";
+  offerId: string;
+  itineraryVersion: number;
+  itinerary: {
+    path: string[];
+    segments: ItinerarySegment[] | null;
+    fareBreakdown: StoredFareBreakdown;
+    total: number;
+    totalInr: number | null;
+    fareClass: string;
+    configVersion: number | null;
+    priceChangeIds: string[] | null;
+    fareRules: FareRule | null;
+    departsAt: string | null; // ISO-8601
+    seatHoldId: string | null;
+  };
+  fareDifference: number;
+  changeFee: number;
+  chargedInr: number;
+  changedBy: string | null;
+}
+
+// A chargeable seat, held while its fee is paid and assigned once it is
+// captured
+export interface SeatPaymentDetails {
+  kind: "seat";
+  assignmentId: string; // the held seat
+  passengerId: string;
+  flightId: string;
+  departureDate: string;
+  seat: string;
+  fee: number;
+  feeInr: number;
+}
+
+export type PaymentDetails = ChangePaymentDetails | SeatPaymentDetails;
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = Omit<typeof payments.$inferInsert, "id" | "amountRefunded" | "createdAt" | "updatedAt">;
+
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type InsertPaymentEvent = Omit<typeof paymentEvents.$inferInsert, "id" | "receivedAt">;
+
+export type BookingItinerary = typeof bookingItineraries.$inferSelect;
+export type InsertBookingItinerary = Omit<typeof bookingItineraries.$inferInsert, "id" | "replacedAt">;
+
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = Omit<typeof refunds.$inferInsert, "id" | "createdAt">;
+
+export type SeatAssignment = typeof seatAssignments.$inferSelect;
+export type InsertSeatAssignment = Omit<typeof seatAssignments.$inferInsert, "id" | "createdAt">;
+
+export type SeatHold = typeof seatHolds.$inferSelect;
+export type InsertSeatHold = Omit<typeof seatHolds.$inferInsert, "id" | "status" | "createdAt">;
+
 export type Booking = typeof bookings.$inferSelect;
-export type InsertBooking = z.infer<typeof insertBookingSchema>;
+// The PNR is generated server-side, so it is part of the insert type even
+// though clients never submit it
+export type InsertBooking = Omit<typeof bookings.$inferInsert, "id" | "createdAt">;
+export type BookingWithPassengers = Booking & { passengers: Passenger[] };
 
 export type PriceConfig = typeof priceConfig.$inferSelect;
 export type InsertPriceConfig = z.infer<typeof insertPriceConfigSchema>;
 
+export type PriceConfigVersion = typeof priceConfigVersions.$inferSelect;
+export type InsertPriceConfigVersion = typeof priceConfigVersions.$inferInsert;
+export type PriceConfigVersionWithAuthor = PriceConfigVersion & { authorName: string | null };
+
+// Fields an admin may change; each change creates a new version
+export const updatePriceConfigSchema = insertPriceConfigSchema
+  .omit({ id: true, version: true })
+  .partial();
+
+export type PriceConfigUpdate = z.infer<typeof updatePriceConfigSchema>;
+
+export const schedulePriceChangeSchema = z.object({
+  changes: updatePriceConfigSchema.refine(changes => Object.keys(changes).length > 0, {
+    message: "At least one field must change",
+  }),
+  effectiveAt: z.coerce.date(),
+});
+
+export type ScheduledPriceChange = typeof scheduledPriceChanges.$inferSelect;
+export type InsertScheduledPriceChange = Omit<
+  typeof scheduledPriceChanges.$inferInsert,
+  "id" | "status" | "appliedVersion" | "createdAt"
+>;
+
 // Auth schemas
 export const loginSchema = z.object({
   email: z.string().email(),
@@ -176,10 +981,56 @@ export const routeComputeSchema = z.object({
   algo: z.enum(["dijkstra", "astar"]),
 });
 
+// At least one seated traveller, and no more infants than adults to hold them
+export const paxMixSchema = z.object({
+  adults: z.number().int().min(0).max(9),
+  children: z.number().int().min(0).max(9),
+  infants: z.number().int().min(0).max(9),
+})
+  .refine(mix => mix.adults + mix.children >= 1, { message: "At least one adult or child is required" })
+  .refine(mix => mix.adults + mix.children <= 9, { message: "At most 9 seated passengers per booking" })
+  .refine(mix => mix.infants <= mix.adults, { message: "Each infant must travel with an adult" });
+
 export const priceQuoteSchema = z.object({
   path: z.array(z.string().length(3)),
-  pax: z.number().int().positive(),
+  pax: paxMixSchema,
+});
+
+export const passengerDetailsSchema = z.object({
+  type: z.enum(["adult", "child", "infant"]),
+  firstName: z.string().trim().min(1),
+  lastName: z.string().trim().min(1),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+});
+
+export const createBookingSchema = z.object({
+  offerId: z.string().min(1),
+  promoCode: z.string().optional(), // defaults to the code the offer was quoted with
+  passengers: z.array(passengerDetailsSchema).min(1), // one per traveller on the offer
+});
+
+export const payBookingSchema = z.object({
+  paymentMethod: z.string().min(1), // a provider token for the card
+});
+
+export const changeBookingSchema = z.object({
+  offerId: z.string().min(1), // a new offer for the same travellers
+  paymentMethod: z.string().min(1).optional(), // required when the change has a charge
+});
+
+export const assignSeatSchema = z.object({
+  passengerId: z.string().min(1),
+  segment: z.number().int().min(0), // index into the booking's segments
+  seat: z.string().trim().toUpperCase().pipe(z.string().regex(/^\d+[A-Z]$/)),
+  paymentMethod: z.string().min(1).optional(), // required for a seat with a fee
 });
 
 export type RouteComputeInput = z.infer<typeof routeComputeSchema>;
 export type PriceQuoteInput = z.infer<typeof priceQuoteSchema>;
+export type CreateBookingInput = z.infer<typeof createBookingSchema>;
+export type PayBookingInput = z.infer<typeof payBookingSchema>;
+export type ChangeBookingInput = z.infer<typeof changeBookingSchema>;
+export type AssignSeatInput = z.infer<typeof assignSeatSchema>;
+export type PassengerDetails = z.infer<typeof passengerDetailsSchema>;